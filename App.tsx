@@ -1,12 +1,33 @@
 
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { motion, AnimatePresence, useMotionValue, animate } from 'framer-motion';
 import { marked } from 'marked';
-import { GoogleGenAI, Modality, LiveSession, LiveServerMessage, Blob as GenAiBlob, FunctionDeclaration, Type } from '@google/genai';
-import type { ChatMessage, ChatMessagePart, ChatSession, AudioConfig, Persona, SearchResult, ScheduledItem } from './types';
+import { GoogleGenAI, Modality, Session as LiveSession, LiveServerMessage, Blob as GenAiBlob, FunctionDeclaration, FunctionCall, Content, Part, Type, GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { ChatMessage, ChatMessagePart, ChatSession, MessageNode, TokenUsage, AudioConfig, Persona, PersonaGenerationConfig, SafetyCategory, SafetyThreshold, SearchResult, ScheduledItem, ToolCall, MediaAsset, GroundingChunk, GroundingSettings } from './types';
 import getAi from './services/geminiService';
-import { decodeAudioData, encode, decode } from './utils/audioUtils';
+import { parseScheduleRequest, ScheduleClarification } from './services/schedulerParser';
+import { transcribeAudio, TRANSCRIPTION_MODEL } from './services/transcriptionService';
+import { generateFollowUpSuggestions } from './services/suggestionService';
+import { countContextTokens, summarizeConversation } from './services/contextService';
+import { loadSessions, saveSessionChanges, loadCollection, saveCollectionChanges, isQuotaError, getStorageEstimate } from './services/storageService';
+import { synthesizeSpeech, toSpeakableText, TTS_SAMPLE_RATE } from './services/ttsService';
+import { enhancePrompt, PROMPT_STYLE_PRESETS, PromptStylePreset, PromptTarget } from './services/promptEnhancerService';
+import { IMAGE_MODELS, MAX_IMAGES_PER_RUN, MAX_SEED, GEMINI_IMAGE_MODEL, GeneratedImageData, generateImages, generateVariations } from './services/imageGenerationService';
+import { TOOLS, ToolContext, getTool, getFunctionDeclarations, getToolSystemInstruction, executeToolCall } from './services/toolRegistry';
+import { decodeAudioData, encode, decode, createPcmBlob } from './utils/audioUtils';
+import { startOfDay, startOfWeek, startOfMonth, addDays, addMonths, isSameDay, toDateTimeLocalValue } from './utils/dateUtils';
+import { exportToIcs, parseIcs, getItemUid } from './utils/icsUtils';
+import { ATTACHMENT_ACCEPT, PendingAttachment, resolveAttachmentMimeType, validateAttachment, formatFileSize, base64ByteLength } from './utils/attachmentUtils';
+import { diffWords } from './utils/diffUtils';
+import { getEditPath, getEditSessionId, getEditSiblings, getEditSteps, getLatestLeafId, getParentId } from './utils/editHistoryUtils';
+import { toGroundingChunks, toGroundingCitations, insertCitations } from './utils/groundingUtils';
+import { getMessageText, hasMessageContent, toMessagePart, appendMessageParts } from './utils/messageUtils';
+import { createNodes, addNodes, createSession, getActivePath, getActiveMessages, getSiblings, updateNodeMessage, selectBranch } from './utils/messageTreeUtils';
+import { CONTEXT_BUDGET_OPTIONS, DEFAULT_CONTEXT_BUDGET, findSummaryIndex, getContextWindow, toContents, selectMessagesToSummarize, estimateContextTokens, COUNT_TOKENS_THRESHOLD, getSessionTokenTotal, formatTokenCount } from './utils/contextUtils';
+import { VOICE_OPTIONS, DEFAULT_CHAT_MODEL, CHAT_MODEL_OPTIONS, SAFETY_CATEGORIES, SAFETY_THRESHOLDS, createPersonaId, toGenerateContentConfig, describePersonaSettings, sanitizeGenerationConfig, exportPersonas, parsePersonaImport } from './utils/personaUtils';
+import { getSearchTerms, matchesAllTerms, createSnippet, splitByTerms } from './utils/searchUtils';
+import { REMINDER_OPTIONS, SNOOZE_MINUTES, REMINDER_CHECK_INTERVAL_MS, REMINDER_WORKER_URL, REMINDER_ACTIONS, ReminderAction, isReminderAction, findDueReminders, markReminderDelivered } from './utils/reminderUtils';
 import { ICONS, PERSONAS as defaultPersonas } from './constants';
 
 
@@ -33,16 +54,388 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<R
         }
     });
 
-    const setValue = (value: T | ((val: T) => T)) => {
+    // Written after render rather than from inside a state updater, which React may call twice.
+    // Functional updates still resolve against the latest state, so several updates issued from
+    // one async flow (e.g. a streaming reply) don't overwrite each other.
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(key, JSON.stringify(storedValue));
+        } catch (error) {
+            console.error(error);
+        }
+    }, [key, storedValue]);
+    return [storedValue, setStoredValue];
+};
+
+type LoadStatus = 'loading' | 'loaded' | 'failed';
+
+// Keeps a collection in IndexedDB: loads it once, then hands each change to `save` together with
+// the previously saved version so only the difference is written. Nothing is saved until the load
+// succeeds, so a failed load can't overwrite the stored data with an empty list; `retry` loads again.
+const useStoredCollection = <T,>(load: () => Promise<T[]>, save: (previous: T[], next: T[]) => Promise<void>, onError: (error: unknown) => void): [T[], React.Dispatch<React.SetStateAction<T[]>>, LoadStatus, () => void] => {
+    const [items, setItems] = useState<T[]>([]);
+    const [status, setStatus] = useState<LoadStatus>('loading');
+    const [loadAttempt, setLoadAttempt] = useState(0);
+    const savedRef = useRef<T[]>([]);
+
+    useEffect(() => {
+        load()
+            .then(loaded => {
+                savedRef.current = loaded;
+                setItems(loaded);
+                setStatus('loaded');
+            })
+            .catch(error => {
+                console.error(error);
+                setStatus('failed');
+            });
+    }, [loadAttempt]);
+
+    useEffect(() => {
+        if (status !== 'loaded' || items === savedRef.current) return;
+        const previous = savedRef.current;
+        savedRef.current = items;
+        save(previous, items).catch(onError);
+    }, [items, status]);
+
+    const retry = useCallback(() => {
+        if (status !== 'failed') return;
+        setStatus('loading');
+        setLoadAttempt(n => n + 1);
+    }, [status]);
+
+    return [items, setItems, status, retry];
+};
+
+// Re-estimates whenever one of `watched` changes.
+const useStorageEstimate = (watched: unknown[]) => {
+    const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+    useEffect(() => {
+        // Debounced, since sessions change on every streamed chunk.
+        const timeoutId = setTimeout(() => getStorageEstimate().then(setEstimate).catch(console.error), 2000);
+        return () => clearTimeout(timeoutId);
+    }, watched);
+    return estimate;
+};
+
+// An object URL for displaying `blob`, revoked when the blob changes or the component unmounts.
+const useObjectUrl = (blob: Blob | null | undefined) => {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        if (!blob) {
+            setUrl(null);
+            return;
+        }
+        const objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [blob]);
+    return url;
+};
+
+interface ActiveReminder {
+    itemId: string;
+    title: string;
+    dateTime: string;
+    isAllDay?: boolean;
+    isMissed: boolean;
+}
+
+// Notification actions aren't in the DOM typings yet.
+type ReminderNotificationOptions = NotificationOptions & { actions?: { action: string; title: string }[] };
+
+// Watches scheduled items and delivers due reminders as browser notifications with snooze and done
+// actions (when permitted), falling back to in-app toasts. Runs as soon as the items have loaded
+// too, which catches up on reminders missed while the tab was closed.
+const useReminders = (items: ScheduledItem[], setItems: React.Dispatch<React.SetStateAction<ScheduledItem[]>>, isLoaded: boolean) => {
+    const [activeReminders, setActiveReminders] = useState<ActiveReminder[]>([]);
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+    const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+
+    const dismissReminder = (itemId: string) => setActiveReminders(prev => prev.filter(r => r.itemId !== itemId));
+
+    const snoozeReminder = (itemId: string) => {
+        const snoozedUntil = new Date(Date.now() + SNOOZE_MINUTES * 60_000).toISOString();
+        setItems(prev => prev.map(item => item.id === itemId ? { ...item, snoozedUntil } : item));
+        dismissReminder(itemId);
+    };
+
+    const completeReminder = (itemId: string) => {
+        setItems(prev => prev.map(item => item.id === itemId ? { ...item, isComplete: true, snoozedUntil: undefined } : item));
+        dismissReminder(itemId);
+    };
+
+    // Only uses state setters, so a handler from any render will do.
+    const handleReminderAction = (action: ReminderAction, itemId: string) => {
+        if (action === 'snooze') snoozeReminder(itemId);
+        else completeReminder(itemId);
+    };
+
+    useEffect(() => {
+        if (!('serviceWorker' in navigator)) return;
+        navigator.serviceWorker.register(REMINDER_WORKER_URL)
+            .then(registration => { registrationRef.current = registration; })
+            .catch(console.error);
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.type === 'reminder-action' && isReminderAction(event.data.action)) {
+                handleReminderAction(event.data.action, event.data.id);
+            }
+        };
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+    }, []);
+
+    // An action picked while the app was closed opens it with the action in the URL.
+    useEffect(() => {
+        if (!isLoaded) return;
+        const params = new URLSearchParams(window.location.search);
+        const action = params.get('reminderAction');
+        const itemId = params.get('reminderId');
+        if (!isReminderAction(action) || !itemId) return;
+        handleReminderAction(action, itemId);
+        window.history.replaceState(null, '', window.location.pathname);
+    }, [isLoaded]);
+
+    useEffect(() => {
+        if (!isLoaded) return;
+        const checkReminders = () => {
+            const due = findDueReminders(itemsRef.current, Date.now());
+            if (due.length === 0) return;
+
+            setItems(prev => prev.map(item => {
+                const reminder = due.find(d => d.item.id === item.id);
+                return reminder ? markReminderDelivered(item, reminder) : item;
+            }));
+
+            const toShow = due.filter(d => !d.isStale).map(({ item, isMissed }) => ({
+                itemId: item.id, title: item.title, dateTime: item.dateTime, isAllDay: item.isAllDay, isMissed,
+            }));
+            if (toShow.length === 0) return;
+
+            const registration = registrationRef.current;
+            if (registration && 'Notification' in window && Notification.permission === 'granted') {
+                toShow.forEach(reminder => {
+                    const when = reminder.isAllDay ? 'Today' : new Date(reminder.dateTime).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+                    const options: ReminderNotificationOptions = {
+                        body: `${reminder.isMissed ? 'Missed reminder • ' : ''}${when}`,
+                        tag: reminder.itemId,
+                        data: { id: reminder.itemId },
+                        actions: REMINDER_ACTIONS.map(a => ({ ...a })),
+                    };
+                    registration.showNotification(reminder.title, options).catch(error => {
+                        console.error(error);
+                        setActiveReminders(prev => [...prev.filter(r => r.itemId !== reminder.itemId), reminder]);
+                    });
+                });
+                return;
+            }
+            // Without notification permission (or a service worker) the reminders are shown in the app.
+            setActiveReminders(prev => [...prev.filter(r => !toShow.some(t => t.itemId === r.itemId)), ...toShow]);
+        };
+
+        checkReminders();
+        const intervalId = window.setInterval(checkReminders, REMINDER_CHECK_INTERVAL_MS);
+        const handleVisibility = () => { if (document.visibilityState === 'visible') checkReminders(); };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            window.clearInterval(intervalId);
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    }, [setItems, isLoaded]);
+
+    return { activeReminders, dismissReminder, snoozeReminder, completeReminder };
+};
+
+type DictationState = 'idle' | 'recording' | 'transcribing';
+
+const MAX_DICTATION_MS = 120_000;
+
+// Records from the microphone and transcribes the clip once stopped. Exposes the elapsed time and
+// input level while recording so callers can render a timer and level meter.
+const useDictation = (onTranscript: (text: string) => void) => {
+    const [state, setState] = useState<DictationState>('idle');
+    const [elapsedMs, setElapsedMs] = useState(0);
+    const [level, setLevel] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const chunksRef = useRef<Blob[]>([]);
+    const isCancelledRef = useRef(false);
+    const releaseRef = useRef<(() => void) | null>(null);
+    const onTranscriptRef = useRef(onTranscript);
+    onTranscriptRef.current = onTranscript;
+
+    const release = () => {
+        releaseRef.current?.();
+        releaseRef.current = null;
+        setLevel(0);
+    };
+
+    const start = async () => {
+        if (state !== 'idle') return;
+        setError(null);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const recorder = new MediaRecorder(stream);
+            const audioContext = new AudioContext();
+            const analyser = audioContext.createAnalyser();
+            analyser.fftSize = 256;
+            audioContext.createMediaStreamSource(stream).connect(analyser);
+            const samples = new Uint8Array(analyser.fftSize);
+            const startedAt = Date.now();
+            let frameId = 0;
+
+            const tick = () => {
+                analyser.getByteTimeDomainData(samples);
+                let sumOfSquares = 0;
+                samples.forEach(sample => { sumOfSquares += ((sample - 128) / 128) ** 2; });
+                setLevel(Math.min(1, Math.sqrt(sumOfSquares / samples.length) * 4));
+                const elapsed = Date.now() - startedAt;
+                setElapsedMs(elapsed);
+                if (elapsed >= MAX_DICTATION_MS) {
+                    recorder.stop();
+                    return;
+                }
+                frameId = requestAnimationFrame(tick);
+            };
+
+            releaseRef.current = () => {
+                cancelAnimationFrame(frameId);
+                stream.getTracks().forEach(track => track.stop());
+                audioContext.close();
+            };
+            chunksRef.current = [];
+            isCancelledRef.current = false;
+            recorder.ondataavailable = (event) => chunksRef.current.push(event.data);
+            recorder.onstop = async () => {
+                release();
+                if (isCancelledRef.current) {
+                    setState('idle');
+                    return;
+                }
+                setState('transcribing');
+                try {
+                    const mimeType = (recorder.mimeType || 'audio/webm').split(';')[0];
+                    const data = await blobToBase64(new Blob(chunksRef.current, { type: mimeType }));
+                    const text = await transcribeAudio(data, mimeType);
+                    if (text) onTranscriptRef.current(text);
+                    else setError("Didn't catch that. Please try again.");
+                } catch (err) {
+                    console.error(err);
+                    setError("Transcription failed. Please try again.");
+                } finally {
+                    setState('idle');
+                }
+            };
+
+            recorderRef.current = recorder;
+            recorder.start();
+            setElapsedMs(0);
+            setState('recording');
+            tick();
+        } catch (err) {
+            console.error("Error accessing microphone:", err);
+            setError("Could not access microphone. Please check permissions.");
+        }
+    };
+
+    const stop = () => {
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+
+    const cancel = () => {
+        isCancelledRef.current = true;
+        stop();
+    };
+
+    useEffect(() => () => {
+        isCancelledRef.current = true;
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+        releaseRef.current?.();
+    }, []);
+
+    return { state, elapsedMs, level, error, clearError: () => setError(null), start, stop, cancel };
+};
+
+type SpeechStatus = 'loading' | 'playing' | 'paused';
+
+const MAX_CACHED_SPEECH = 20;
+
+// Reads replies aloud with Gemini TTS. Only one reply plays at a time, and decoded audio is cached
+// per voice and text so replaying a reply doesn't regenerate it.
+const useSpeechPlayback = () => {
+    const [audioConfig, setAudioConfig] = useState<AudioConfig>({ voice: null, isPlaying: null });
+    const [status, setStatus] = useState<SpeechStatus | null>(null);
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const cacheRef = useRef(new Map<string, AudioBuffer>());
+    const requestIdRef = useRef(0);
+
+    const stop = useCallback(() => {
+        requestIdRef.current++;
+        if (sourceRef.current) {
+            sourceRef.current.onended = null;
+            sourceRef.current.stop();
+            sourceRef.current = null;
+        }
+        setAudioConfig(config => ({ ...config, isPlaying: null }));
+        setStatus(null);
+    }, []);
+
+    const speak = useCallback(async (messageKey: string, text: string, voice: Persona['voiceId']) => {
+        stop();
+        const requestId = requestIdRef.current;
+        const ctx = audioContextRef.current ||= new AudioContext({ sampleRate: TTS_SAMPLE_RATE });
+        setAudioConfig({ voice, isPlaying: messageKey });
+        setStatus('loading');
         try {
-            const valueToStore = value instanceof Function ? value(storedValue) : value;
-            setStoredValue(valueToStore);
-            window.localStorage.setItem(key, JSON.stringify(valueToStore));
+            if (ctx.state === 'suspended') await ctx.resume();
+            const speakable = toSpeakableText(text);
+            const cacheKey = `${voice}:${speakable}`;
+            let buffer = cacheRef.current.get(cacheKey);
+            if (!buffer) {
+                const data = await synthesizeSpeech(speakable, voice);
+                buffer = await decodeAudioData(decode(data), ctx, TTS_SAMPLE_RATE, 1);
+                cacheRef.current.set(cacheKey, buffer);
+                if (cacheRef.current.size > MAX_CACHED_SPEECH) cacheRef.current.delete(cacheRef.current.keys().next().value!);
+            }
+            if (requestId !== requestIdRef.current) return;
+
+            const source = ctx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(ctx.destination);
+            source.onended = () => { if (sourceRef.current === source) stop(); };
+            source.start();
+            sourceRef.current = source;
+            setStatus('playing');
         } catch (error) {
             console.error(error);
+            if (requestId === requestIdRef.current) stop();
+        }
+    }, [stop]);
+
+    // Play, pause or resume the given message depending on what is currently playing.
+    const toggle = (messageKey: string, text: string, voice: Persona['voiceId']) => {
+        const ctx = audioContextRef.current;
+        if (audioConfig.isPlaying !== messageKey || !ctx) {
+            speak(messageKey, text, voice);
+        } else if (status === 'playing') {
+            ctx.suspend();
+            setStatus('paused');
+        } else if (status === 'paused') {
+            ctx.resume();
+            setStatus('playing');
+        } else {
+            stop();
         }
     };
-    return [storedValue, setValue];
+
+    useEffect(() => () => {
+        sourceRef.current?.stop();
+        audioContextRef.current?.close();
+    }, []);
+
+    return { playingKey: audioConfig.isPlaying, status, speak, toggle, stop };
 };
 
 
@@ -50,6 +443,18 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<R
 type View = 'chat' | 'live' | 'media' | 'scheduler';
 
 // --- Helper Functions ---
+// Resolves to null when location is unavailable or denied; Maps grounding then works without it.
+const getCurrentLocation = (): Promise<{ latitude: number; longitude: number } | null> => {
+    if (!('geolocation' in navigator)) return Promise.resolve(null);
+    return new Promise(resolve => {
+        navigator.geolocation.getCurrentPosition(
+            ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude }),
+            () => resolve(null),
+            { timeout: 10_000, maximumAge: 5 * 60_000 },
+        );
+    });
+};
+
 const blobToBase64 = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -59,16 +464,23 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
     });
 };
 
-const extractHtmlContent = (text: string): string | null => {
-    const match = text.match(/```html\n([\s\S]*?)\n```/);
+const base64ToBlob = (base64: string, mimeType: string): Blob => new Blob([decode(base64)], { type: mimeType });
+
+// When `allowPartial` is set, an unterminated ```html block (still streaming in) also matches.
+const extractHtmlContent = (text: string, allowPartial = false): string | null => {
+    const match = text.match(allowPartial ? /```html\n([\s\S]*?)(?:\n```|$)/ : /```html\n([\s\S]*?)\n```/);
     return match ? match[1] : null;
 };
 
-const renderMessageContent = (msg: ChatMessage, personaId: string | undefined) => {
-    const text = msg.parts[0].text || '';
-    
-    if (personaId === 'prototyper' && msg.role === 'model') {
-        const htmlContent = extractHtmlContent(text);
+const CODE_EXECUTION_OUTCOMES: Record<string, { label: string; className: string }> = {
+    OUTCOME_OK: { label: 'Succeeded', className: 'text-green-400' },
+    OUTCOME_FAILED: { label: 'Failed', className: 'text-red-400' },
+    OUTCOME_DEADLINE_EXCEEDED: { label: 'Timed out', className: 'text-red-400' },
+};
+
+const renderTextPart = (text: string, isPrototyper: boolean, isStreaming: boolean) => {
+    if (isPrototyper) {
+        const htmlContent = extractHtmlContent(text, isStreaming);
         if (htmlContent) {
             return (
                 <pre className="bg-gray-800/50 rounded-md p-3 text-sm overflow-x-auto text-left whitespace-pre-wrap font-mono">
@@ -83,6 +495,72 @@ const renderMessageContent = (msg: ChatMessage, personaId: string | undefined) =
     return <div className="prose prose-invert prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: rawMarkup as string }} />;
 };
 
+const renderMessagePart = (part: ChatMessagePart, isPrototyper: boolean, isStreaming: boolean) => {
+    if (part.text) return renderTextPart(part.text, isPrototyper, isStreaming);
+
+    if (part.inlineData) {
+        const { data, mimeType } = part.inlineData;
+        const src = `data:${mimeType};base64,${data}`;
+        if (mimeType.startsWith('image/')) {
+            return <a href={src} target="_blank" rel="noreferrer"><img src={src} alt="Generated image" className="max-w-full rounded-lg border border-[var(--border-color)]" /></a>;
+        }
+        if (mimeType.startsWith('audio/')) {
+            return <audio controls src={src} className="w-full max-w-sm" />;
+        }
+        return <AttachmentCard fileName="Attachment" mimeType={mimeType} size={base64ByteLength(data)} />;
+    }
+
+    if (part.executableCode) {
+        const language = part.executableCode.language && part.executableCode.language !== 'LANGUAGE_UNSPECIFIED' ? part.executableCode.language.toLowerCase() : 'code';
+        return (
+            <div className="rounded-md overflow-hidden border border-[var(--border-color)]">
+                <p className="px-3 py-1.5 text-xs font-medium text-[var(--text-tertiary)] bg-[var(--surface-overlay)] capitalize">{language}</p>
+                <pre className="bg-gray-800/50 p-3 text-sm overflow-x-auto font-mono"><code className="text-white">{part.executableCode.code}</code></pre>
+            </div>
+        );
+    }
+
+    if (part.codeExecutionResult) {
+        const outcome = CODE_EXECUTION_OUTCOMES[part.codeExecutionResult.outcome || ''];
+        return (
+            <div className="rounded-md overflow-hidden border border-[var(--border-color)]">
+                <p className="px-3 py-1.5 text-xs font-medium text-[var(--text-tertiary)] bg-[var(--surface-overlay)] flex justify-between">
+                    <span>Output</span>
+                    {outcome && <span className={outcome.className}>{outcome.label}</span>}
+                </p>
+                <pre className="bg-gray-800/50 p-3 text-xs overflow-x-auto font-mono whitespace-pre-wrap"><code className="text-white">{part.codeExecutionResult.output || '(no output)'}</code></pre>
+            </div>
+        );
+    }
+
+    return null;
+};
+
+// Renders every part of a message in order. Consecutive user attachments are laid out as one row.
+const renderMessageContent = (msg: ChatMessage, personaId: string | undefined, isStreaming = false) => {
+    const isPrototyper = personaId === 'prototyper' && msg.role === 'model';
+    const blocks: ChatMessagePart[][] = [];
+    msg.parts.forEach(part => {
+        const previous = blocks[blocks.length - 1];
+        if (part.fileName && previous?.[0].fileName) previous.push(part);
+        else blocks.push([part]);
+    });
+
+    const withCitations = (part: ChatMessagePart) => part.text && msg.groundingCitations?.length && msg.groundingChunks
+        ? { ...part, text: insertCitations(part.text, msg.groundingCitations, msg.groundingChunks) }
+        : part;
+
+    return (
+        <div className="space-y-3">
+            {blocks.map((block, i) => block[0].fileName
+                ? <MessageAttachments key={i} parts={block} />
+                : <React.Fragment key={i}>{renderMessagePart(withCitations(block[0]), isPrototyper, isStreaming && i === blocks.length - 1)}</React.Fragment>
+            )}
+            {!isStreaming && msg.groundingChunks && msg.groundingChunks.length > 0 && <GroundingSources chunks={msg.groundingChunks} />}
+        </div>
+    );
+};
+
 
 // --- Base UI Components ---
 
@@ -122,13 +600,108 @@ const Loader: React.FC<{ text?: string; className?: string }> = ({ text, classNa
 );
 
 
+// --- Tool Components ---
+
+const MAX_TOOL_ROUNDS = 5;
+
+const toToolCall = (call: FunctionCall): ToolCall => ({
+    id: call.id || `${call.name}-${Date.now()}`,
+    name: call.name || 'unknown',
+    args: call.args || {},
+    status: 'running',
+});
+
+const ToolCallList: React.FC<{ toolCalls: ToolCall[] }> = ({ toolCalls }) => (
+    <div className="space-y-2 mb-2">
+        {toolCalls.map(call => {
+            const tool = getTool(call.name);
+            const summary = Object.values(call.args).find(v => typeof v === 'string') as string | undefined;
+            return (
+                <div key={call.id} className="rounded-lg bg-[var(--surface-overlay)] border border-[var(--border-color)] p-2 text-left">
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="text-[var(--accent-teal)]">{React.cloneElement(tool ? ICONS[tool.icon] : ICONS.LIVE_TOOLS, { className: 'w-4 h-4' })}</span>
+                        <span className="font-medium">{tool?.label || call.name}</span>
+                        {summary && <span className="truncate text-[var(--text-tertiary)]">“{summary}”</span>}
+                        <span className="ml-auto flex-shrink-0">
+                            {call.status === 'running' && <Loader />}
+                            {call.status === 'done' && <span className="text-[var(--accent-teal)]">{React.cloneElement(ICONS.CHECK_CIRCLE, { className: 'w-4 h-4' })}</span>}
+                            {call.status === 'error' && <span className="text-red-400">{String(call.result?.error || 'Failed')}</span>}
+                        </span>
+                    </div>
+                    {call.output?.inlineData?.mimeType.startsWith('image/') && (
+                        <img src={`data:${call.output.inlineData.mimeType};base64,${call.output.inlineData.data}`} alt={summary || 'Tool output'} className="mt-2 max-w-full rounded-md" />
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+const ToolPickerModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    enabledTools: string[];
+    setEnabledTools: (tools: string[]) => void;
+}> = ({ isOpen, onClose, enabledTools, setEnabledTools }) => {
+    const toggleTool = (name: string) => {
+        setEnabledTools(enabledTools.includes(name) ? enabledTools.filter(t => t !== name) : [...enabledTools, name]);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="fixed inset-0 bg-black/60 z-30 flex items-center justify-center p-4"
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-full max-w-md glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium p-5 text-left"
+                    >
+                        <div className="flex items-center justify-between pb-4 border-b border-[var(--border-color)]">
+                            <h3 className="font-semibold">Agent Tools</h3>
+                            <PremiumButton onClick={onClose} variant="ghost" size="icon">{ICONS.X_MARK}</PremiumButton>
+                        </div>
+                        <p className="text-sm text-[var(--text-secondary)] py-3">Choose which actions the agent may take on your behalf.</p>
+                        <div className="space-y-2">
+                            {TOOLS.map(tool => {
+                                const isEnabled = enabledTools.includes(tool.declaration.name);
+                                return (
+                                    <button
+                                        key={tool.declaration.name}
+                                        onClick={() => toggleTool(tool.declaration.name)}
+                                        className={`w-full flex items-center gap-3 p-3 rounded-lg transition-colors ${isEnabled ? 'bg-[var(--surface-overlay)] border border-[var(--accent-teal)]/40' : 'border border-transparent hover:bg-[var(--surface-overlay)]'}`}
+                                    >
+                                        <span className="text-[var(--accent-teal)]">{React.cloneElement(ICONS[tool.icon], { className: 'w-5 h-5' })}</span>
+                                        <span className="flex-1">
+                                            <span className="block text-sm font-medium">{tool.label}</span>
+                                            <span className="block text-xs text-[var(--text-tertiary)]">{tool.description}</span>
+                                        </span>
+                                        <span className={isEnabled ? 'text-[var(--accent-teal)]' : 'text-[var(--text-tertiary)]'}>
+                                            {isEnabled ? ICONS.CHECK_CIRCLE : ICONS.CIRCLE}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+
 // --- Chat Agent Components ---
 
 const PersonaSelector: React.FC<{
     personas: Persona[];
     selectedPersonaId: string;
     onSelect: (id: string) => void;
-}> = ({ personas, selectedPersonaId, onSelect }) => {
+    onManage?: () => void;
+}> = ({ personas, selectedPersonaId, onSelect, onManage }) => {
     const [isOpen, setIsOpen] = useState(false);
     const selectedPersona = personas.find(p => p.id === selectedPersonaId) || personas[0];
     const ref = useRef<HTMLDivElement>(null);
@@ -158,7 +731,7 @@ const PersonaSelector: React.FC<{
                         initial={{ opacity: 0, y: -10 }}
                         animate={{ opacity: 1, y: 0 }}
                         exit={{ opacity: 0, y: -10 }}
-                        className="absolute top-full mt-2 w-64 glass-surface bg-[var(--surface-elevated)] rounded-lg shadow-premium z-10 p-2"
+                        className="absolute top-full mt-2 w-64 max-h-[60vh] overflow-y-auto glass-surface bg-[var(--surface-elevated)] rounded-lg shadow-premium z-10 p-2"
                     >
                         {personas.map(persona => (
                             <button
@@ -166,10 +739,21 @@ const PersonaSelector: React.FC<{
                                 onClick={() => { onSelect(persona.id); setIsOpen(false); }}
                                 className={`w-full text-left p-2 rounded-md transition-colors ${selectedPersonaId === persona.id ? 'bg-gradient-accent text-slate-900' : 'hover:bg-[var(--surface-overlay)]'}`}
                             >
-                                <p className="font-medium text-sm">{persona.name}</p>
+                                <p className="font-medium text-sm">
+                                    {persona.name}
+                                    {persona.isCustom && <span className={`ml-2 text-[10px] font-normal ${selectedPersonaId === persona.id ? 'text-slate-800' : 'text-[var(--accent-teal)]'}`}>Custom</span>}
+                                </p>
                                 <p className={`text-xs ${selectedPersonaId === persona.id ? 'text-slate-800' : 'text-[var(--text-tertiary)]'}`}>{persona.description}</p>
                             </button>
                         ))}
+                        {onManage && (
+                            <button
+                                onClick={() => { onManage(); setIsOpen(false); }}
+                                className="w-full flex items-center gap-2 mt-1 p-2 pt-3 border-t border-[var(--border-color)] text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                            >
+                                {React.cloneElement(ICONS.USER_PLUS, { className: 'w-4 h-4' })} Manage personas
+                            </button>
+                        )}
                     </motion.div>
                 )}
             </AnimatePresence>
@@ -177,6 +761,276 @@ const PersonaSelector: React.FC<{
     );
 };
 
+type PersonaDraft = Omit<Persona, 'id' | 'isCustom'> & { id?: string };
+
+const PersonaEditorForm: React.FC<{ draft: PersonaDraft; onSave: (draft: PersonaDraft) => void; onCancel: () => void }> = ({ draft, onSave, onCancel }) => {
+    const [name, setName] = useState(draft.name);
+    const [description, setDescription] = useState(draft.description);
+    const [prompt, setPrompt] = useState(draft.prompt);
+    const [voiceId, setVoiceId] = useState<Persona['voiceId']>(draft.voiceId);
+    const [model, setModel] = useState(draft.model || '');
+    const [generationConfig, setGenerationConfig] = useState<PersonaGenerationConfig>(draft.generationConfig || {});
+    const [showModelSettings, setShowModelSettings] = useState(!!(draft.model || draft.generationConfig));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || !prompt.trim()) return;
+        onSave({
+            ...draft,
+            name: name.trim(),
+            description: description.trim(),
+            prompt,
+            voiceId,
+            model: model || undefined,
+            generationConfig: sanitizeGenerationConfig(generationConfig),
+        });
+    };
+
+    // Empty number fields fall back to the API default.
+    const setNumberField = (field: 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget', value: string) => {
+        setGenerationConfig(config => ({ ...config, [field]: value === '' ? undefined : Number(value) }));
+    };
+
+    const setSafetyThreshold = (category: SafetyCategory, threshold: SafetyThreshold | '') => {
+        setGenerationConfig(config => {
+            const safetySettings = { ...config.safetySettings };
+            if (threshold) safetySettings[category] = threshold;
+            else delete safetySettings[category];
+            return { ...config, safetySettings };
+        });
+    };
+
+    const numberFields: { field: 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget'; label: string; min: number; max: number; step: number }[] = [
+        { field: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+        { field: 'topP', label: 'Top-P', min: 0, max: 1, step: 0.05 },
+        { field: 'maxOutputTokens', label: 'Max output tokens', min: 1, max: 65536, step: 1 },
+        { field: 'thinkingBudget', label: 'Thinking budget (-1 = auto)', min: -1, max: 32768, step: 1 },
+    ];
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3 pt-4">
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name"
+                autoFocus
+                className="w-full p-3 bg-[var(--surface-base)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+            />
+            <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Short description"
+                className="w-full p-3 bg-[var(--surface-base)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+            />
+            <textarea
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="System prompt: personality, tone and how the persona should respond"
+                className="w-full h-48 p-3 bg-[var(--surface-base)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none text-sm"
+            />
+            <div>
+                <p className="text-sm text-[var(--text-secondary)] mb-2">Voice</p>
+                <div className="flex flex-wrap gap-2">
+                    {VOICE_OPTIONS.map(voice => (
+                        <button
+                            key={voice}
+                            type="button"
+                            onClick={() => setVoiceId(voice)}
+                            className={`px-3 py-1 rounded-full text-xs transition-colors ${voiceId === voice ? 'bg-gradient-accent text-slate-900' : 'bg-[var(--surface-base)] text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)]'}`}
+                        >
+                            {voice}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div>
+                <button type="button" onClick={() => setShowModelSettings(!showModelSettings)} className="flex items-center gap-1 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+                    Model & generation
+                    <span className={`transition-transform ${showModelSettings ? 'rotate-180' : ''}`}>{ICONS.CHEVRON_DOWN}</span>
+                </button>
+                {showModelSettings && (
+                    <div className="mt-3 space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="text-xs text-[var(--text-secondary)] space-y-1">
+                                <span>Model</span>
+                                <select value={model} onChange={(e) => setModel(e.target.value)} className="w-full p-2 bg-[var(--surface-base)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]">
+                                    <option value="">Default ({CHAT_MODEL_OPTIONS.find(m => m.id === DEFAULT_CHAT_MODEL)?.label})</option>
+                                    {CHAT_MODEL_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-xs text-[var(--text-secondary)] space-y-1">
+                                <span>Response format</span>
+                                <select
+                                    value={generationConfig.responseMimeType || ''}
+                                    onChange={(e) => setGenerationConfig(config => ({ ...config, responseMimeType: (e.target.value || undefined) as PersonaGenerationConfig['responseMimeType'] }))}
+                                    className="w-full p-2 bg-[var(--surface-base)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                                >
+                                    <option value="">Default</option>
+                                    <option value="text/plain">Plain text</option>
+                                    <option value="application/json">JSON</option>
+                                </select>
+                            </label>
+                            {numberFields.map(({ field, label, min, max, step }) => (
+                                <label key={field} className="text-xs text-[var(--text-secondary)] space-y-1">
+                                    <span>{label}</span>
+                                    <input
+                                        type="number"
+                                        min={min} max={max} step={step}
+                                        value={generationConfig[field] ?? ''}
+                                        onChange={(e) => setNumberField(field, e.target.value)}
+                                        placeholder="Default"
+                                        className="w-full p-2 bg-[var(--surface-base)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            <p className="text-xs text-[var(--text-secondary)]">Safety</p>
+                            {SAFETY_CATEGORIES.map(category => (
+                                <div key={category.id} className="flex items-center justify-between gap-3 text-sm">
+                                    <span className="text-[var(--text-secondary)]">{category.label}</span>
+                                    <select
+                                        value={generationConfig.safetySettings?.[category.id] || ''}
+                                        onChange={(e) => setSafetyThreshold(category.id, e.target.value as SafetyThreshold | '')}
+                                        className="p-1.5 bg-[var(--surface-base)] rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                                    >
+                                        <option value="">Default</option>
+                                        {SAFETY_THRESHOLDS.map(threshold => <option key={threshold.id} value={threshold.id}>{threshold.label}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                        {generationConfig.responseMimeType === 'application/json' && (
+                            <p className="text-[11px] text-[var(--text-tertiary)]">Agent tools and grounding are unavailable when replies must be JSON.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+            <div className="flex items-center justify-end gap-2 pt-2">
+                <PremiumButton type="button" variant="ghost" onClick={onCancel} className="!px-4 !py-2">Cancel</PremiumButton>
+                <PremiumButton type="submit" disabled={!name.trim() || !prompt.trim()} className="!px-5 !py-2">Save</PremiumButton>
+            </div>
+        </form>
+    );
+};
+
+// Create, edit, duplicate and delete custom personas, and share them as JSON. Built-ins are read-only.
+const PersonaManagerModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    personas: Persona[];
+    setCustomPersonas: React.Dispatch<React.SetStateAction<Persona[]>>;
+}> = ({ isOpen, onClose, personas, setCustomPersonas }) => {
+    const [draft, setDraft] = useState<PersonaDraft | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const customPersonas = personas.filter(p => p.isCustom);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setDraft(null);
+            setMessage(null);
+        }
+    }, [isOpen]);
+
+    const handleSave = ({ id, ...fields }: PersonaDraft) => {
+        setCustomPersonas(prev => id
+            ? prev.map(p => p.id === id ? { ...p, ...fields } : p)
+            : [...prev, { ...fields, id: createPersonaId(), isCustom: true }]);
+        setDraft(null);
+    };
+
+    const handleDuplicate = ({ id, isCustom, ...persona }: Persona) => {
+        setDraft({ ...persona, name: `${persona.name} (copy)` });
+    };
+
+    const handleDelete = (persona: Persona) => {
+        if (!window.confirm(`Delete "${persona.name}"? Conversations using it will switch to the default persona.`)) return;
+        setCustomPersonas(prev => prev.filter(p => p.id !== persona.id));
+    };
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(new Blob([exportPersonas(customPersonas)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'w3j-personas.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const { personas: imported, skipped } = parsePersonaImport(await file.text());
+            setCustomPersonas(prev => [...prev, ...imported]);
+            setMessage(`Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}` + (skipped ? `, skipped ${skipped} invalid.` : '.'));
+        } catch (error) {
+            console.error(error);
+            setMessage("Couldn't read that persona file.");
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="fixed inset-0 bg-black/60 z-30 flex items-center justify-center p-4"
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-full max-w-lg max-h-[85vh] flex flex-col glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium p-5 text-left"
+                    >
+                        <div className="flex items-center justify-between pb-4 border-b border-[var(--border-color)]">
+                            <h3 className="font-semibold">{draft ? (draft.id ? 'Edit Persona' : 'New Persona') : 'Personas'}</h3>
+                            <PremiumButton onClick={onClose} variant="ghost" size="icon">{ICONS.X_MARK}</PremiumButton>
+                        </div>
+                        {draft ? (
+                            <PersonaEditorForm key={draft.id || 'new'} draft={draft} onSave={handleSave} onCancel={() => setDraft(null)} />
+                        ) : (
+                            <>
+                                <div className="flex items-center gap-2 py-3">
+                                    <PremiumButton onClick={() => setDraft({ name: '', description: '', prompt: '', voiceId: 'Kore' })} className="!px-4 !py-2 text-sm">
+                                        {React.cloneElement(ICONS.USER_PLUS, { className: 'w-4 h-4' })}<span className="ml-2">New</span>
+                                    </PremiumButton>
+                                    <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                                    <PremiumButton variant="secondary" onClick={() => importInputRef.current?.click()} className="!px-4 !py-2 text-sm">Import</PremiumButton>
+                                    <PremiumButton variant="secondary" onClick={handleExport} disabled={customPersonas.length === 0} className="!px-4 !py-2 text-sm">Export</PremiumButton>
+                                </div>
+                                {message && <p className="text-xs text-[var(--text-secondary)] pb-2">{message}</p>}
+                                <div className="flex-1 overflow-y-auto space-y-2">
+                                    {personas.map(persona => (
+                                        <div key={persona.id} className="flex items-start gap-3 p-3 rounded-lg bg-[var(--surface-base)]">
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm font-medium truncate">{persona.name}</p>
+                                                <p className="text-xs text-[var(--text-tertiary)] line-clamp-2">{persona.description}</p>
+                                                <p className="text-[11px] text-[var(--text-tertiary)] mt-1">{persona.isCustom ? 'Custom' : 'Built-in'} • Voice: {persona.voiceId} • {describePersonaSettings(persona).join(' • ')}</p>
+                                            </div>
+                                            <div className="flex items-center">
+                                                <PremiumButton variant="ghost" size="icon" title="Duplicate" onClick={() => handleDuplicate(persona)} className="!w-8 !h-8">{React.cloneElement(ICONS.PLUS, { className: 'w-4 h-4' })}</PremiumButton>
+                                                {persona.isCustom && (
+                                                    <>
+                                                        <PremiumButton variant="ghost" size="icon" title="Edit" onClick={() => setDraft(persona)} className="!w-8 !h-8">{React.cloneElement(ICONS.PENCIL, { className: 'w-4 h-4' })}</PremiumButton>
+                                                        <PremiumButton variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(persona)} className="!w-8 !h-8 text-red-400">{React.cloneElement(ICONS.TRASH, { className: 'w-4 h-4' })}</PremiumButton>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
 
 const ChatEmptyState: React.FC<{ onPromptClick: (prompt: string) => void }> = ({ onPromptClick }) => {
     const suggestedPrompts = ["Design a landing page for a coffee shop", "Analyze quarterly sales data", "Draft marketing copy for a new product"];
@@ -224,51 +1078,357 @@ const ChatEmptyState: React.FC<{ onPromptClick: (prompt: string) => void }> = ({
     );
 };
 
-const ChatInputArea: React.FC<{
-    input: string;
-    setInput: (value: string) => void;
-    onSendMessage: () => void;
-    isLoading: boolean;
-}> = ({ input, setInput, onSendMessage, isLoading }) => {
-    const textareaRef = useRef<HTMLTextAreaElement>(null);
+const AttachmentCard: React.FC<{ fileName: string; mimeType: string; size: number; onRemove?: () => void }> = ({ fileName, mimeType, size, onRemove }) => (
+    <div className="flex items-center gap-2 p-2 pr-3 rounded-lg bg-[var(--surface-overlay)] border border-[var(--border-color)] max-w-[220px]">
+        <span className="text-[var(--accent-teal)] flex-shrink-0">{React.cloneElement(mimeType.startsWith('audio/') ? ICONS.MIC : ICONS.DOCUMENT, { className: 'w-5 h-5' })}</span>
+        <span className="min-w-0 flex-1">
+            <span className="block text-xs font-medium truncate">{fileName}</span>
+            <span className="block text-[11px] text-[var(--text-tertiary)]">{mimeType.split('/')[1].toUpperCase()} • {formatFileSize(size)}</span>
+        </span>
+        {onRemove && <button type="button" onClick={onRemove} title="Remove" className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">{React.cloneElement(ICONS.X_MARK, { className: 'w-4 h-4' })}</button>}
+    </div>
+);
 
-    useEffect(() => {
-        const textarea = textareaRef.current;
-        if (textarea) {
-            textarea.style.height = 'auto';
-            textarea.style.height = `${Math.min(textarea.scrollHeight, 200)}px`;
-        }
-    }, [input]);
+const AttachmentThumbnail: React.FC<{ src: string; alt: string; className?: string; onRemove?: () => void }> = ({ src, alt, className = '', onRemove }) => (
+    <div className={`relative group ${className}`}>
+        <img src={src} alt={alt} title={alt} className="w-full h-full object-cover rounded-lg border border-[var(--border-color)]" />
+        {onRemove && (
+            <button type="button" onClick={onRemove} title="Remove" className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-[var(--surface-elevated)] border border-[var(--border-color)] flex items-center justify-center text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+                {React.cloneElement(ICONS.X_MARK, { className: 'w-3 h-3' })}
+            </button>
+        )}
+    </div>
+);
 
+// Files the user sent with a message: images as thumbnails, everything else as file cards.
+const MessageAttachments: React.FC<{ parts: ChatMessagePart[] }> = ({ parts }) => {
+    const attachments = parts.filter(p => p.inlineData && p.fileName);
+    if (attachments.length === 0) return null;
     return (
-        <footer className="flex-shrink-0 px-4 pb-6 safe-padding-left safe-padding-right safe-padding-bottom">
-            <div className="w-full max-w-3xl mx-auto">
-                <form
-                    onSubmit={(e) => { e.preventDefault(); onSendMessage(); }}
-                    className="p-3 md:p-5 glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium relative border-2 border-transparent focus-within:border-[var(--accent-teal)] transition-all"
-                >
-                    <div className="flex items-start gap-3">
-                         <button type="button" className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">{ICONS.PAPERCLIP}</button>
+        <div className="flex flex-wrap gap-2">
+            {attachments.map((part, i) => {
+                const { data, mimeType } = part.inlineData!;
+                return mimeType.startsWith('image/')
+                    ? <a key={i} href={`data:${mimeType};base64,${data}`} target="_blank" rel="noreferrer"><AttachmentThumbnail src={`data:${mimeType};base64,${data}`} alt={part.fileName!} className="w-28 h-28" /></a>
+                    : <AttachmentCard key={i} fileName={part.fileName!} mimeType={mimeType} size={base64ByteLength(data)} />;
+            })}
+        </div>
+    );
+};
+
+// Numbered sources for a grounded reply; Maps results are shown as place cards with review snippets.
+const GroundingSources: React.FC<{ chunks: GroundingChunk[] }> = ({ chunks }) => (
+    <div className="pt-3 border-t border-[var(--border-color)] space-y-2">
+        <p className="text-xs font-medium text-[var(--text-tertiary)] flex items-center gap-1.5">{React.cloneElement(ICONS.GROUNDING, { className: 'w-3.5 h-3.5' })} Sources</p>
+        <div className="flex flex-wrap gap-1.5">
+            {chunks.map((chunk, i) => chunk.web && (
+                <a key={i} href={chunk.web.uri} target="_blank" rel="noreferrer" className="text-xs px-2 py-1 rounded-md bg-[var(--surface-overlay)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] max-w-[200px] truncate">
+                    <span className="text-[var(--accent-teal)] mr-1">{i + 1}</span>{chunk.web.title}
+                </a>
+            ))}
+        </div>
+        {chunks.map((chunk, i) => chunk.maps && (
+            <div key={i} className="p-3 rounded-lg bg-[var(--surface-overlay)] border border-[var(--border-color)]">
+                <a href={chunk.maps.uri} target="_blank" rel="noreferrer" className="text-sm font-medium hover:text-[var(--accent-teal)]">
+                    <span className="text-[var(--accent-teal)] mr-1.5">{i + 1}</span>{chunk.maps.title}
+                </a>
+                {chunk.maps.placeAnswerSources?.reviewSnippets.slice(0, 2).map((snippet, j) => (
+                    <p key={j} className="mt-1.5 text-xs text-[var(--text-secondary)]">
+                        <span className="italic">“{snippet.text}”</span> <span className="text-[var(--text-tertiary)]">— {snippet.authorName}</span>
+                    </p>
+                ))}
+            </div>
+        ))}
+    </div>
+);
+
+const GroundingMenu: React.FC<{ grounding: GroundingSettings; onChange: (grounding: GroundingSettings) => void }> = ({ grounding, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const isActive = grounding.search || grounding.maps;
+    const options: { key: keyof GroundingSettings; label: string; description: string }[] = [
+        { key: 'search', label: 'Google Search', description: 'Cite up-to-date web sources' },
+        { key: 'maps', label: 'Google Maps', description: 'Find places near your location' },
+    ];
+
+    return (
+        <div className="relative">
+            <button type="button" onClick={() => setIsOpen(!isOpen)} title="Grounding" className={`p-2 transition-colors ${isActive ? 'text-[var(--accent-teal)]' : 'text-[var(--text-tertiary)]'} hover:text-[var(--text-primary)]`}>
+                {ICONS.GROUNDING}
+            </button>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 10 }}
+                        className="absolute bottom-full left-0 mb-2 w-64 glass-surface bg-[var(--surface-elevated)] rounded-lg shadow-lg z-10 p-2"
+                    >
+                        {options.map(option => (
+                            <label key={option.key} className="flex items-start gap-3 p-2 rounded-md hover:bg-[var(--surface-overlay)] cursor-pointer">
+                                <input type="checkbox" checked={grounding[option.key]} onChange={(e) => onChange({ ...grounding, [option.key]: e.target.checked })} className="mt-1 accent-[var(--accent-teal)]" />
+                                <span>
+                                    <span className="block text-sm font-medium">{option.label}</span>
+                                    <span className="block text-xs text-[var(--text-tertiary)]">{option.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                        <p className="text-[11px] text-[var(--text-tertiary)] px-2 pt-1">Agent tools are paused while grounding is on.</p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+// Shows how much of the context budget the current branch uses, and lets the budget be changed.
+const ContextMeter: React.FC<{ contextTokens: number; totalTokens: number; budget: number; onChangeBudget: (budget: number) => void }> = ({ contextTokens, totalTokens, budget, onChangeBudget }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const ratio = Math.min(1, contextTokens / budget);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title="Context usage"
+                className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-[11px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors"
+            >
+                <span className="w-12 h-1.5 rounded-full bg-[var(--surface-overlay)] overflow-hidden">
+                    <span className={`block h-full rounded-full ${ratio >= 1 ? 'bg-[var(--accent-warning)]' : 'bg-[var(--accent-teal)]'}`} style={{ width: `${ratio * 100}%` }} />
+                </span>
+                <span className="tabular-nums">{formatTokenCount(contextTokens)} / {formatTokenCount(budget)}</span>
+            </button>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }}
+                        className="absolute top-full right-0 mt-2 w-64 glass-surface bg-[var(--surface-elevated)] rounded-lg shadow-lg z-10 p-2"
+                    >
+                        <p className="text-xs text-[var(--text-secondary)] px-2 py-1">Context budget</p>
+                        {CONTEXT_BUDGET_OPTIONS.map(option => (
+                            <button
+                                key={option}
+                                onClick={() => { onChangeBudget(option); setIsOpen(false); }}
+                                className={`w-full flex justify-between px-2 py-1.5 rounded-md text-sm hover:bg-[var(--surface-overlay)] ${option === budget ? 'text-[var(--accent-teal)]' : ''}`}
+                            >
+                                <span>{formatTokenCount(option)} tokens</span>
+                                {option === budget && React.cloneElement(ICONS.CHECK, { className: 'w-4 h-4' })}
+                            </button>
+                        ))}
+                        <p className="text-[11px] text-[var(--text-tertiary)] px-2 pt-2">
+                            Older messages are summarized once the conversation exceeds the budget. Pinned messages are always kept. {formatTokenCount(totalTokens)} tokens used in this chat so far.
+                        </p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+const SpeechControls: React.FC<{ status: SpeechStatus | null; onToggle: () => void; onStop: () => void }> = ({ status, onToggle, onStop }) => (
+    <div className="flex items-center gap-1">
+        <button
+            onClick={onToggle}
+            title={status === 'playing' ? 'Pause' : status === 'paused' ? 'Resume' : status === 'loading' ? 'Cancel' : 'Read aloud'}
+            className={`p-1 rounded-md hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors ${status ? 'text-[var(--accent-teal)]' : ''}`}
+        >
+            {status === 'loading'
+                ? <motion.span className="block w-4 h-4 rounded-full border-2 border-current border-t-transparent" animate={{ rotate: 360 }} transition={{ duration: 0.8, repeat: Infinity, ease: 'linear' }} />
+                : React.cloneElement(status === 'playing' ? ICONS.PAUSE : status === 'paused' ? ICONS.PLAY : ICONS.SPEAKER_WAVE, { className: 'w-4 h-4' })}
+        </button>
+        {(status === 'playing' || status === 'paused') && (
+            <button onClick={onStop} title="Stop" className="p-1 rounded-md hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors">
+                {React.cloneElement(ICONS.STOP, { className: 'w-4 h-4' })}
+            </button>
+        )}
+    </div>
+);
+
+const ChatInputArea: React.FC<{
+    input: string;
+    setInput: (value: string) => void;
+    onSendMessage: (text?: string) => void;
+    onStop: () => void;
+    onOpenTools: () => void;
+    enabledToolCount: number;
+    grounding: GroundingSettings;
+    onChangeGrounding: (grounding: GroundingSettings) => void;
+    attachments: PendingAttachment[];
+    attachmentError: string | null;
+    onAddFiles: (files: File[]) => void;
+    onRemoveAttachment: (id: string) => void;
+    isLoading: boolean;
+}> = ({ input, setInput, onSendMessage, onStop, onOpenTools, enabledToolCount, grounding, onChangeGrounding, attachments, attachmentError, onAddFiles, onRemoveAttachment, isLoading }) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [autoSendDictation, setAutoSendDictation] = useLocalStorage('dictationAutoSend', false);
+    const micPressedAtRef = useRef(0);
+
+    // Inserts the transcript at the cursor (or replaces the selection), padding it with spaces.
+    const handleTranscript = (text: string) => {
+        const textarea = textareaRef.current;
+        const selectionStart = textarea?.selectionStart ?? input.length;
+        const selectionEnd = textarea?.selectionEnd ?? input.length;
+        const before = input.slice(0, selectionStart);
+        const after = input.slice(selectionEnd);
+        const insertion = `${before && !/\s$/.test(before) ? ' ' : ''}${text}${after && !/^\s/.test(after) ? ' ' : ''}`;
+        const nextInput = before + insertion + after;
+
+        if (autoSendDictation && !isLoading) {
+            onSendMessage(nextInput);
+            return;
+        }
+        setInput(nextInput);
+        requestAnimationFrame(() => {
+            const cursor = before.length + insertion.length;
+            textarea?.focus();
+            textarea?.setSelectionRange(cursor, cursor);
+        });
+    };
+
+    const dictation = useDictation(handleTranscript);
+
+    // Push-to-talk: holding the mic records until release; a short tap starts recording
+    // until the mic is tapped again.
+    const handleMicPointerDown = () => {
+        if (dictation.state === 'recording') {
+            dictation.stop();
+            return;
+        }
+        micPressedAtRef.current = Date.now();
+        dictation.start();
+    };
+
+    const handleMicPointerUp = () => {
+        if (dictation.state === 'recording' && micPressedAtRef.current && Date.now() - micPressedAtRef.current > 400) dictation.stop();
+        micPressedAtRef.current = 0;
+    };
+
+    // Keyboard activation has no pointer events, so Enter/Space toggles recording.
+    const handleMicKeyboardClick = (e: React.MouseEvent) => {
+        if (e.detail !== 0) return;
+        if (dictation.state === 'recording') dictation.stop();
+        else dictation.start();
+    };
+
+    const formatElapsed = (ms: number) => `${Math.floor(ms / 60000)}:${String(Math.floor(ms / 1000) % 60).padStart(2, '0')}`;
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        const files = Array.from(e.clipboardData.files);
+        if (files.length === 0) return;
+        e.preventDefault();
+        onAddFiles(files);
+    };
+
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (textarea) {
+            textarea.style.height = 'auto';
+            textarea.style.height = `${Math.min(textarea.scrollHeight, 200)}px`;
+        }
+    }, [input]);
+
+    return (
+        <footer className="flex-shrink-0 px-4 pb-6 safe-padding-left safe-padding-right safe-padding-bottom">
+            <div className="w-full max-w-3xl mx-auto">
+                <form
+                    onSubmit={(e) => { e.preventDefault(); onSendMessage(); }}
+                    className="p-3 md:p-5 glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium relative border-2 border-transparent focus-within:border-[var(--accent-teal)] transition-all"
+                >
+                    {attachments.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                            {attachments.map(a => a.mimeType.startsWith('image/')
+                                ? <AttachmentThumbnail key={a.id} src={`data:${a.mimeType};base64,${a.data}`} alt={a.fileName} className="w-14 h-14" onRemove={() => onRemoveAttachment(a.id)} />
+                                : <AttachmentCard key={a.id} fileName={a.fileName} mimeType={a.mimeType} size={a.size} onRemove={() => onRemoveAttachment(a.id)} />
+                            )}
+                        </div>
+                    )}
+                    {attachmentError && <p className="text-xs text-red-400 mb-2">{attachmentError}</p>}
+                    {dictation.error && (
+                        <p className="text-xs text-red-400 mb-2 flex items-center gap-2">
+                            {dictation.error}
+                            <button type="button" onClick={dictation.clearError} className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">{React.cloneElement(ICONS.X_MARK, { className: 'w-3 h-3' })}</button>
+                        </p>
+                    )}
+                    {dictation.state !== 'idle' && (
+                        <div className="flex items-center gap-3 mb-3 px-3 py-2 rounded-lg bg-[var(--surface-overlay)] text-sm">
+                            {dictation.state === 'recording' ? (
+                                <>
+                                    <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                                    <span className="font-mono tabular-nums text-[var(--text-secondary)]">{formatElapsed(dictation.elapsedMs)}</span>
+                                    <div className="flex items-center gap-0.5 h-5" aria-hidden>
+                                        {[0.6, 0.9, 1, 0.8, 0.5].map((scale, i) => (
+                                            <span key={i} className="w-1 rounded-full bg-[var(--accent-teal)] transition-[height] duration-75" style={{ height: `${Math.max(15, dictation.level * scale * 100)}%` }} />
+                                        ))}
+                                    </div>
+                                    <label className="ml-auto flex items-center gap-1.5 text-xs text-[var(--text-secondary)] cursor-pointer">
+                                        <input type="checkbox" checked={autoSendDictation} onChange={(e) => setAutoSendDictation(e.target.checked)} className="accent-[var(--accent-teal)]" />
+                                        Send when done
+                                    </label>
+                                    <button type="button" onClick={dictation.cancel} className="text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">Cancel</button>
+                                    <button type="button" onClick={dictation.stop} className="text-xs font-medium text-[var(--accent-teal)]">Done</button>
+                                </>
+                            ) : (
+                                <Loader text="Transcribing..." />
+                            )}
+                        </div>
+                    )}
+                    <div className="flex items-start gap-3">
+                         <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={ATTACHMENT_ACCEPT}
+                            multiple
+                            className="hidden"
+                            onChange={(e) => { onAddFiles(Array.from(e.target.files || [])); e.target.value = ''; }}
+                         />
+                         <button type="button" onClick={() => fileInputRef.current?.click()} title="Attach files" className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">{ICONS.PAPERCLIP}</button>
+                         <button type="button" onClick={onOpenTools} title="Agent tools" className={`relative p-2 transition-colors ${enabledToolCount > 0 ? 'text-[var(--accent-teal)]' : 'text-[var(--text-tertiary)]'} hover:text-[var(--text-primary)]`}>
+                            {ICONS.LIVE_TOOLS}
+                            {enabledToolCount > 0 && <span className="absolute -top-0.5 -right-0.5 text-[10px] font-semibold w-4 h-4 rounded-full bg-[var(--accent-teal)] text-slate-900 flex items-center justify-center">{enabledToolCount}</span>}
+                         </button>
+                         <GroundingMenu grounding={grounding} onChange={onChangeGrounding} />
                          <textarea
                             ref={textareaRef}
                             value={input}
                             onChange={(e) => setInput(e.target.value)}
                             placeholder="Ask anything..."
                             onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); onSendMessage(); }}}
+                            onPaste={handlePaste}
                             className="flex-1 bg-transparent text-[16px] text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none resize-none leading-relaxed"
                             rows={1}
                             disabled={isLoading}
                         />
-                        <button type="button" className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">{ICONS.MIC}</button>
-                        <motion.button
-                            type="submit"
-                            disabled={isLoading || !input}
-                            className="w-12 h-12 flex items-center justify-center rounded-xl bg-gradient-accent disabled:opacity-50"
-                            whileHover={{ scale: 1.1, rotate: -15 }}
-                            whileTap={{ scale: 0.9 }}
+                        <button
+                            type="button"
+                            onPointerDown={handleMicPointerDown}
+                            onPointerUp={handleMicPointerUp}
+                            onClick={handleMicKeyboardClick}
+                            disabled={dictation.state === 'transcribing'}
+                            title="Dictate (hold to talk, or tap to start and stop)"
+                            className={`p-2 transition-colors disabled:opacity-50 ${dictation.state === 'recording' ? 'text-red-400' : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'}`}
                         >
-                            <div className="text-slate-900">{ICONS.SEND}</div>
-                        </motion.button>
+                            {ICONS.MIC}
+                        </button>
+                        {isLoading ? (
+                            <motion.button
+                                type="button"
+                                onClick={onStop}
+                                title="Stop generating"
+                                className="w-12 h-12 flex items-center justify-center rounded-xl bg-[var(--surface-overlay)] border border-[var(--accent-teal)]/30 text-[var(--text-primary)]"
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                            >
+                                {ICONS.STOP}
+                            </motion.button>
+                        ) : (
+                            <motion.button
+                                type="submit"
+                                disabled={!input && attachments.length === 0}
+                                className="w-12 h-12 flex items-center justify-center rounded-xl bg-gradient-accent disabled:opacity-50"
+                                whileHover={{ scale: 1.1, rotate: -15 }}
+                                whileTap={{ scale: 0.9 }}
+                            >
+                                <div className="text-slate-900">{ICONS.SEND}</div>
+                            </motion.button>
+                        )}
                     </div>
                     <p className="text-xs text-center text-[var(--text-tertiary)] mt-3">⌘K for commands  •  Shift+Enter for new line</p>
                 </form>
@@ -282,14 +1442,41 @@ const ChatAgent: React.FC<{
     setSessions: React.Dispatch<React.SetStateAction<ChatSession[]>>;
     activeSessionId: string | null;
     setActiveSessionId: React.Dispatch<React.SetStateAction<string | null>>;
-}> = ({ sessions, setSessions, activeSessionId, setActiveSessionId }) => {
+    enabledTools: string[];
+    setEnabledTools: (tools: string[]) => void;
+    toolContext: ToolContext;
+    personas: Persona[];
+    onManagePersonas: () => void;
+    focusMessageIndex: number | null;
+    onFocusHandled: () => void;
+}> = ({ sessions, setSessions, activeSessionId, setActiveSessionId, enabledTools, setEnabledTools, toolContext, personas, onManagePersonas, focusMessageIndex, onFocusHandled }) => {
     
     const [input, setInput] = useState('');
-    const [isLoading, setIsLoading] = useState(false);
+    const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+    const [streamingNodeId, setStreamingNodeId] = useState<string | null>(null);
+    const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+    const [editText, setEditText] = useState('');
+    const [copiedNodeId, setCopiedNodeId] = useState<string | null>(null);
+    const [isSummarizing, setIsSummarizing] = useState(false);
+    const [contextBudget, setContextBudget] = useLocalStorage('contextTokenBudget', DEFAULT_CONTEXT_BUDGET);
+    const [isToolPickerOpen, setIsToolPickerOpen] = useState(false);
+    const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+    const [attachmentError, setAttachmentError] = useState<string | null>(null);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const [autoReadAloud, setAutoReadAloud] = useLocalStorage('autoReadAloud', false);
+    const [showSuggestions, setShowSuggestions] = useLocalStorage('showSuggestions', true);
+    const speech = useSpeechPlayback();
+    const abortControllerRef = useRef<AbortController | null>(null);
     
     const chatContainerRef = useRef<HTMLDivElement>(null);
     
     const activeSession = sessions.find(s => s.id === activeSessionId);
+    const activePath = useMemo(() => activeSession ? getActivePath(activeSession) : [], [activeSession]);
+    const isLoading = streamingNodeId !== null;
+    const summaryIndex = activeSession ? findSummaryIndex(activePath, activeSession.contextSummaries) : -1;
+    // Size of the context the latest reply was generated from, plus the reply itself.
+    const lastUsage = [...activePath].reverse().find(n => n.message.usage)?.message.usage;
+    const contextTokens = lastUsage ? lastUsage.promptTokens + lastUsage.outputTokens : 0;
     
     useEffect(() => {
         if (!activeSessionId || !sessions.some(s => s.id === activeSessionId)) {
@@ -302,190 +1489,1148 @@ const ChatAgent: React.FC<{
     }, [sessions, activeSessionId, setActiveSessionId]);
     
     useEffect(() => {
+        if (focusMessageIndex !== null) return;
         setTimeout(() => chatContainerRef.current?.scrollTo({ top: chatContainerRef.current.scrollHeight, behavior: 'smooth' }), 100);
-    }, [activeSession?.messages]);
+    }, [activeSession?.nodes, activeSession?.activeLeafId]);
+
+    // Jumps to a message picked in the command palette and briefly highlights it.
+    useEffect(() => {
+        if (focusMessageIndex === null) return;
+        const timeoutId = setTimeout(() => {
+            chatContainerRef.current?.querySelector(`[data-message-index="${focusMessageIndex}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            setHighlightedIndex(focusMessageIndex);
+            onFocusHandled();
+        }, 150);
+        return () => clearTimeout(timeoutId);
+    }, [focusMessageIndex, onFocusHandled]);
+
+    useEffect(() => {
+        if (highlightedIndex === null) return;
+        const timeoutId = setTimeout(() => setHighlightedIndex(null), 2000);
+        return () => clearTimeout(timeoutId);
+    }, [highlightedIndex]);
     
     const updateSession = (updater: (session: ChatSession) => ChatSession) => {
         if (!activeSessionId) return;
-        setSessions(sessions.map(s => s.id === activeSessionId ? updater(s) : s));
+        setSessions(prev => prev.map(s => s.id === activeSessionId ? updater(s) : s));
+    };
+
+    const updateNode = (nodeId: string, updater: (message: ChatMessage) => ChatMessage) => {
+        updateSession(s => updateNodeMessage(s, nodeId, updater));
     };
 
     const handleNewChat = useCallback(() => {
-        const newSession: ChatSession = {
+        const newSession = createSession({
             id: `session-${Date.now()}`,
             title: "New Conversation",
             createdAt: Date.now(),
-            messages: [],
             personaId: 'default',
-        };
+        });
         setSessions(prev => [newSession, ...prev]);
         setActiveSessionId(newSession.id);
     }, [setSessions, setActiveSessionId]);
     
+    const handleAddFiles = async (files: File[]) => {
+        setAttachmentError(null);
+        const added: PendingAttachment[] = [];
+        for (const file of files) {
+            const error = validateAttachment(file, [...attachments, ...added]);
+            if (error) {
+                setAttachmentError(error);
+                continue;
+            }
+            try {
+                const data = await blobToBase64(file);
+                added.push({ id: `attachment-${Date.now()}-${added.length}`, fileName: file.name || 'Pasted image', mimeType: resolveAttachmentMimeType(file)!, size: file.size, data });
+            } catch (error) {
+                console.error(error);
+                setAttachmentError(`${file.name} couldn't be read.`);
+            }
+        }
+        setAttachments(prev => [...prev, ...added]);
+    };
+
+    const handleRemoveAttachment = (id: string) => {
+        setAttachments(prev => prev.filter(a => a.id !== id));
+        setAttachmentError(null);
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        if (!isLoading) handleAddFiles(Array.from(e.dataTransfer.files));
+    };
+
+    // Adds a user message and an empty reply to the active branch, then streams the reply into it.
+    const sendUserMessage = async (message: ChatMessage, titleSource: string) => {
+        if (!activeSession) return;
+        let newTitle = activeSession.title;
+        if(activePath.length < 1){
+            newTitle = titleSource.substring(0, 25) + (titleSource.length > 25 ? "..." : "");
+        }
+        
+        const modelMessage: ChatMessage = { role: 'model', parts: [{ text: '' }] };
+        const [userNode, modelNode] = createNodes(activeSession.activeLeafId, [message, modelMessage]);
+        updateSession(s => ({ ...addNodes(s, [userNode, modelNode]), title: newTitle }));
+        await runReply([...activePath, userNode], modelNode.id);
+    };
+
     const handleSendMessage = async (prompt?: string) => {
         const messageToSend = prompt || input;
-        if (!messageToSend || isLoading || !activeSession) return;
+        if ((!messageToSend && attachments.length === 0) || isLoading || !activeSession) return;
         
-        const newUserMessage: ChatMessage = { role: 'user', parts: [{ text: messageToSend }] };
-        
-        let newTitle = activeSession.title;
-        if(activeSession.messages.length < 1){
-            newTitle = messageToSend.substring(0, 25) + (messageToSend.length > 25 ? "..." : "");
+        const newUserMessage: ChatMessage = {
+            role: 'user',
+            parts: [
+                ...attachments.map(a => ({ inlineData: { data: a.data, mimeType: a.mimeType }, fileName: a.fileName })),
+                ...(messageToSend ? [{ text: messageToSend }] : []),
+            ],
+        };
+        const titleSource = messageToSend || attachments[0].fileName;
+        setInput('');
+        setAttachments([]);
+        setAttachmentError(null);
+        await sendUserMessage(newUserMessage, titleSource);
+    };
+
+    // Sends a suggestion on its own, leaving the typed draft and pending attachments untouched.
+    const handleSendSuggestion = async (suggestion: string) => {
+        if (isLoading || !activeSession) return;
+        await sendUserMessage({ role: 'user', parts: [{ text: suggestion }] }, suggestion);
+    };
+
+    // Resends an edited user message as a new branch next to the original; attachments are kept.
+    const handleEditMessage = async (node: MessageNode, text: string) => {
+        if (isLoading || !activeSession) return;
+        const editedMessage: ChatMessage = {
+            role: 'user',
+            parts: [...node.message.parts.filter(p => p.text === undefined), ...(text.trim() ? [{ text }] : [])],
+        };
+        if (!hasMessageContent(editedMessage)) return;
+        const history = activePath.slice(0, activePath.findIndex(n => n.id === node.id));
+        const [userNode, modelNode] = createNodes(node.parentId, [editedMessage, { role: 'model', parts: [{ text: '' }] }]);
+        updateSession(s => addNodes(s, [userNode, modelNode]));
+        setEditingNodeId(null);
+        await runReply([...history, userNode], modelNode.id);
+    };
+
+    // Asks for a new reply to the same history; the previous reply stays available as a branch.
+    const handleRegenerate = async (node: MessageNode) => {
+        if (isLoading || !activeSession) return;
+        const history = activePath.slice(0, activePath.findIndex(n => n.id === node.id));
+        const [modelNode] = createNodes(node.parentId, [{ role: 'model', parts: [{ text: '' }] }]);
+        updateSession(s => addNodes(s, [modelNode]));
+        await runReply(history, modelNode.id);
+    };
+
+    const handleSelectBranch = (nodeId: string) => {
+        updateSession(s => selectBranch(s, nodeId));
+    };
+
+    const handleCopyMessage = async (node: MessageNode) => {
+        try {
+            await navigator.clipboard.writeText(getMessageText(node.message, '\n\n'));
+            setCopiedNodeId(node.id);
+            setTimeout(() => setCopiedNodeId(current => current === node.id ? null : current), 1500);
+        } catch (error) {
+            console.error(error);
         }
-        
-        updateSession(s => ({ ...s, messages: [...s.messages, newUserMessage], title: newTitle }));
+    };
+
+    // Streams a reply to the conversation `history` into the (empty) model message `modelNodeId`.
+    const runReply = async (history: MessageNode[], modelNodeId: string) => {
+        if (!activeSession) return;
+        const updateReply = (updater: (message: ChatMessage) => ChatMessage) => updateNode(modelNodeId, updater);
+        setStreamingNodeId(modelNodeId);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let messageParts: ChatMessagePart[] = [{ text: '' }];
+        try {
+            const ai = getAi();
+            const activePersona = personas.find(p => p.id === activeSession.personaId) || personas[0];
+            
+            // Built-in grounding tools can't be combined with function calling, so agent tools
+            // are left out while grounding is on. Neither is available for JSON-only personas.
+            const allowsTools = activePersona.generationConfig?.responseMimeType !== 'application/json';
+            const groundingTools = !allowsTools ? [] : [
+                ...(grounding.search ? [{ googleSearch: {} }] : []),
+                ...(grounding.maps ? [{ googleMaps: {} }] : []),
+            ];
+            const latLng = grounding.maps ? await getCurrentLocation() : null;
+            const functionDeclarations = !allowsTools || groundingTools.length > 0 ? [] : getFunctionDeclarations(enabledTools);
+            const model = activePersona.model || DEFAULT_CHAT_MODEL;
+
+            // Over budget, older turns are folded into the rolling summary before sending. Tokens are
+            // only counted near the budget, judging by the usage saved with the last reply.
+            // Counting or summarizing failures aren't fatal; the full context is sent instead.
+            let summaries = activeSession.contextSummaries || {};
+            try {
+                const isNearBudget = estimateContextTokens(history) > contextBudget * COUNT_TOKENS_THRESHOLD;
+                const tokenCount = isNearBudget ? await countContextTokens(model, toContents(getContextWindow(history, summaries)), controller.signal) : 0;
+                const pending = tokenCount > contextBudget ? selectMessagesToSummarize(history, summaries) : null;
+                if (pending) {
+                    setIsSummarizing(true);
+                    const summary = await summarizeConversation(getContextWindow(history, summaries).summary, pending.messages, controller.signal);
+                    if (!controller.signal.aborted) {
+                        summaries = { ...summaries, [pending.throughNodeId]: summary };
+                        updateSession(s => ({ ...s, contextSummaries: { ...s.contextSummaries, [pending.throughNodeId]: summary } }));
+                    }
+                }
+            } catch (error) {
+                if (!controller.signal.aborted) console.error(error);
+            } finally {
+                setIsSummarizing(false);
+            }
+            if (controller.signal.aborted) {
+                updateReply(m => ({ ...m, isTruncated: true }));
+                return;
+            }
+            const contents = toContents(getContextWindow(history, summaries));
+            let usage: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+
+            // Each round streams one model turn; if it asks for function calls we run them,
+            // append the responses and let the model continue.
+            for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+                const stream = await ai.models.generateContentStream({
+                    model,
+                    contents,
+                    config: {
+                        ...toGenerateContentConfig(activePersona.generationConfig),
+                        systemInstruction: functionDeclarations.length > 0
+                            ? `${activePersona.prompt}\n\n${getToolSystemInstruction()}`
+                            : activePersona.prompt,
+                        abortSignal: controller.signal,
+                        ...(functionDeclarations.length > 0 && { tools: [{ functionDeclarations }] }),
+                        ...(groundingTools.length > 0 && { tools: groundingTools }),
+                        ...(latLng && { toolConfig: { retrievalConfig: { latLng } } }),
+                    }
+                });
+
+                const modelParts: Part[] = [];
+                const functionCalls: FunctionCall[] = [];
+                let roundUsage: GenerateContentResponseUsageMetadata | undefined;
+                for await (const chunk of stream) {
+                    if (controller.signal.aborted) break;
+                    roundUsage = chunk.usageMetadata || roundUsage;
+                    const parts = chunk.candidates?.[0]?.content?.parts || [];
+                    const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+                    if (groundingMetadata?.groundingChunks?.length) {
+                        const groundingChunks = toGroundingChunks(groundingMetadata);
+                        const groundingCitations = toGroundingCitations(groundingMetadata);
+                        updateReply(m => ({ ...m, groundingChunks, groundingCitations }));
+                    }
+                    modelParts.push(...parts);
+                    functionCalls.push(...(chunk.functionCalls || []));
+                    const newParts = parts.map(toMessagePart).filter((p): p is ChatMessagePart => p !== null);
+                    if (newParts.length === 0) continue;
+                    messageParts = appendMessageParts(messageParts, newParts);
+                    const updatedParts = messageParts;
+                    updateReply(m => ({ ...m, parts: updatedParts }));
+                }
+                if (roundUsage) {
+                    const roundTotal = { promptTokens: roundUsage.promptTokenCount || 0, outputTokens: usage.outputTokens + (roundUsage.candidatesTokenCount || 0) + (roundUsage.thoughtsTokenCount || 0) };
+                    usage = roundTotal;
+                    updateReply(m => ({ ...m, usage: roundTotal }));
+                }
+                if (controller.signal.aborted || functionCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+
+                contents.push({ role: 'model', parts: modelParts });
+                const functionResponses: Part[] = [];
+                for (const call of functionCalls) {
+                    const pending = toToolCall(call);
+                    updateReply(m => ({ ...m, toolCalls: [...(m.toolCalls || []), pending] }));
+                    const finished = await executeToolCall(pending, toolContext);
+                    updateReply(m => ({ ...m, toolCalls: m.toolCalls?.map(t => t.id === finished.id ? finished : t) }));
+                    functionResponses.push({ functionResponse: { id: call.id, name: call.name, response: finished.result } });
+                }
+                if (controller.signal.aborted) break;
+                contents.push({ role: 'user', parts: functionResponses });
+                const lastText = messageParts[messageParts.length - 1].text;
+                if (lastText && !lastText.endsWith('\n')) messageParts = appendMessageParts(messageParts, [{ text: '\n\n' }]);
+            }
+            if (controller.signal.aborted) {
+                updateReply(m => ({ ...m, isTruncated: true }));
+            } else {
+                const replyText = getMessageText({ role: 'model', parts: messageParts });
+                if (replyText.trim() && autoReadAloud) speech.speak(`${activeSession.id}:${modelNodeId}`, replyText, activePersona.voiceId);
+                if (replyText.trim() && showSuggestions) {
+                    generateFollowUpSuggestions(getMessageText(history[history.length - 1].message), replyText).then(suggestions => {
+                        if (suggestions.length === 0) return;
+                        updateReply(m => ({ ...m, suggestions }));
+                    });
+                }
+            }
+
+        } catch (error) {
+            if (controller.signal.aborted) {
+                updateReply(m => ({ ...m, isTruncated: true }));
+            } else {
+                console.error(error);
+                const errorParts = hasMessageContent({ role: 'model', parts: messageParts })
+                    ? appendMessageParts(messageParts, [{ text: '\n\n*Sorry, the response was interrupted by an error.*' }])
+                    : [{ text: "Sorry, I encountered an error. Please try again." }];
+                updateReply(m => ({ ...m, parts: errorParts }));
+            }
+        } finally {
+            abortControllerRef.current = null;
+            setStreamingNodeId(null);
+        }
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const grounding = activeSession?.grounding || { search: false, maps: false };
+    const activePersona = personas.find(p => p.id === activeSession?.personaId) || personas[0];
+    const activePersonaVoice = activePersona.voiceId;
+
+    const handleSelectPersona = (personaId: string) => {
+        updateSession(s => ({ ...s, personaId }));
+    };
+    
+    return (
+        <div className="relative flex flex-col h-full bg-transparent" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+            <AnimatePresence>
+                {isDraggingFiles && (
+                    <motion.div
+                        initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                        className="absolute inset-4 z-20 flex flex-col items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-[var(--accent-teal)] bg-[var(--surface-base)]/80 pointer-events-none"
+                    >
+                        <span className="text-[var(--accent-teal)]">{React.cloneElement(ICONS.PAPERCLIP, { className: 'w-8 h-8' })}</span>
+                        <p className="text-sm font-medium">Drop files to attach</p>
+                        <p className="text-xs text-[var(--text-tertiary)]">Images, PDFs, audio and text files</p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+            {activeSession && activePath.length > 0 ? (
+                <div className="flex-1 min-h-0 flex flex-col">
+                    <div className="p-4 border-b border-[var(--border-color)] flex items-center justify-center gap-2">
+                         <PersonaSelector 
+                            personas={personas}
+                            selectedPersonaId={activeSession.personaId || 'default'}
+                            onSelect={handleSelectPersona}
+                            onManage={onManagePersonas}
+                         />
+                         <div className="hidden md:flex items-center gap-1" title="Model settings for this persona">
+                            {describePersonaSettings(activePersona).map(label => (
+                                <span key={label} className="px-2 py-0.5 rounded-full text-[11px] bg-[var(--surface-overlay)] text-[var(--text-tertiary)]">{label}</span>
+                            ))}
+                         </div>
+                         <button
+                            onClick={() => { if (autoReadAloud) speech.stop(); setAutoReadAloud(!autoReadAloud); }}
+                            title={autoReadAloud ? 'Stop reading replies aloud' : 'Read replies aloud'}
+                            className={`p-2 rounded-lg transition-colors ${autoReadAloud ? 'text-[var(--accent-teal)] bg-[var(--surface-overlay)]' : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'}`}
+                         >
+                            {ICONS.SPEAKER_WAVE}
+                         </button>
+                         <ContextMeter
+                            contextTokens={contextTokens}
+                            totalTokens={getSessionTokenTotal(activeSession)}
+                            budget={contextBudget}
+                            onChangeBudget={setContextBudget}
+                         />
+                         <button
+                            onClick={() => setShowSuggestions(!showSuggestions)}
+                            title={showSuggestions ? 'Hide suggested follow-ups' : 'Show suggested follow-ups'}
+                            className={`p-2 rounded-lg transition-colors ${showSuggestions ? 'text-[var(--accent-teal)] bg-[var(--surface-overlay)]' : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'}`}
+                         >
+                            {React.cloneElement(ICONS.SPARKLES, { className: 'w-5 h-5' })}
+                         </button>
+                    </div>
+                    <div ref={chatContainerRef} className="flex-1 w-full overflow-y-auto">
+                        <div className="p-4 md:p-6 space-y-6 max-w-3xl mx-auto">
+                            {activePath.map((node, index) => {
+                                const msg = node.message;
+                                const isStreaming = node.id === streamingNodeId;
+                                if (isStreaming && !hasMessageContent(msg) && !msg.toolCalls?.length) {
+                                    return <motion.div key={node.id} initial={{ opacity: 0 }} animate={{ opacity: 1 }}><div className="flex justify-start"><Loader text={isSummarizing ? "Summarizing earlier messages..." : "Thinking..."} /></div></motion.div>;
+                                }
+                                const siblings = getSiblings(activeSession, node);
+                                const siblingIndex = siblings.findIndex(n => n.id === node.id);
+                                const speechKey = `${activeSession.id}:${node.id}`;
+                                const isEditing = editingNodeId === node.id;
+                                return (
+                                <motion.div key={node.id} data-message-index={index} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
+                                    <div className={`flex items-start gap-3 w-full rounded-2xl transition-shadow duration-500 ${msg.role === 'user' ? 'justify-end' : 'justify-start'} ${highlightedIndex === index ? 'ring-2 ring-[var(--accent-teal)] ring-offset-4 ring-offset-transparent' : ''} ${index <= summaryIndex && !msg.isPinned ? 'opacity-60' : ''}`}>
+                                        {msg.role === 'model' && 
+                                            <div className="w-8 h-8 rounded-full bg-gradient-accent flex items-center justify-center text-slate-900 flex-shrink-0 mt-1">
+                                                {React.cloneElement(ICONS.LOGO, {strokeWidth: 2})}
+                                            </div>
+                                        }
+                                        {isEditing ? (
+                                            <div className="w-full max-w-xl glass-surface rounded-2xl p-3">
+                                                <textarea
+                                                    value={editText}
+                                                    onChange={(e) => setEditText(e.target.value)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditMessage(node, editText); }
+                                                        if (e.key === 'Escape') setEditingNodeId(null);
+                                                    }}
+                                                    autoFocus
+                                                    rows={3}
+                                                    className="w-full bg-transparent resize-none focus:outline-none text-[var(--text-primary)]"
+                                                />
+                                                <div className="flex items-center justify-end gap-2 mt-2">
+                                                    {msg.parts.some(p => p.inlineData) && <span className="mr-auto text-xs text-[var(--text-tertiary)]">Attachments are kept</span>}
+                                                    <PremiumButton variant="ghost" onClick={() => setEditingNodeId(null)} className="!px-4 !py-2 !text-sm">Cancel</PremiumButton>
+                                                    <PremiumButton onClick={() => handleEditMessage(node, editText)} disabled={isLoading} className="!px-4 !py-2 !text-sm">Send</PremiumButton>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                        <div className={`max-w-xl p-3 px-4 ${msg.role === 'user' 
+                                            ? 'bg-[rgba(252,252,249,0.12)] border border-[rgba(94,82,64,0.2)] rounded-[16px_16px_4px_16px]' 
+                                            : 'glass-surface rounded-[16px_16px_16px_4px]'}
+                                        `}>
+                                            {msg.toolCalls && msg.toolCalls.length > 0 && <ToolCallList toolCalls={msg.toolCalls} />}
+                                            {renderMessageContent(msg, activeSession.personaId, isStreaming)}
+                                            {msg.isTruncated && (
+                                                <p className="mt-2 text-xs italic text-[var(--text-tertiary)]">Response stopped</p>
+                                            )}
+                                        </div>
+                                        )}
+                                    </div>
+                                    {!isStreaming && !isEditing && (
+                                        <div className={`flex items-center gap-1 mt-1 text-[var(--text-tertiary)] ${msg.role === 'user' ? 'justify-end' : 'ml-11'}`}>
+                                            {siblings.length > 1 && (
+                                                <div className="flex items-center text-xs">
+                                                    <button
+                                                        onClick={() => handleSelectBranch(siblings[siblingIndex - 1].id)}
+                                                        disabled={isLoading || siblingIndex === 0}
+                                                        title="Previous version"
+                                                        className="p-1 rounded-md hover:text-[var(--text-primary)] disabled:opacity-40 disabled:hover:text-[var(--text-tertiary)]"
+                                                    >
+                                                        {React.cloneElement(ICONS.CHEVRON_LEFT, { className: 'w-3.5 h-3.5' })}
+                                                    </button>
+                                                    <span className="tabular-nums">{siblingIndex + 1}/{siblings.length}</span>
+                                                    <button
+                                                        onClick={() => handleSelectBranch(siblings[siblingIndex + 1].id)}
+                                                        disabled={isLoading || siblingIndex === siblings.length - 1}
+                                                        title="Next version"
+                                                        className="p-1 rounded-md hover:text-[var(--text-primary)] disabled:opacity-40 disabled:hover:text-[var(--text-tertiary)]"
+                                                    >
+                                                        {React.cloneElement(ICONS.CHEVRON_RIGHT, { className: 'w-3.5 h-3.5' })}
+                                                    </button>
+                                                </div>
+                                            )}
+                                            {getMessageText(msg).trim() && (
+                                                <button
+                                                    onClick={() => handleCopyMessage(node)}
+                                                    title={copiedNodeId === node.id ? 'Copied' : 'Copy'}
+                                                    className={`p-1 rounded-md hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors ${copiedNodeId === node.id ? 'text-[var(--accent-teal)]' : ''}`}
+                                                >
+                                                    {React.cloneElement(copiedNodeId === node.id ? ICONS.CHECK : ICONS.COPY, { className: 'w-4 h-4' })}
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => updateNode(node.id, m => ({ ...m, isPinned: !m.isPinned }))}
+                                                title={msg.isPinned ? 'Unpin' : 'Pin (always keep in context)'}
+                                                className={`p-1 rounded-md hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors ${msg.isPinned ? 'text-[var(--accent-teal)]' : ''}`}
+                                            >
+                                                {React.cloneElement(ICONS.BOOKMARK, { className: 'w-4 h-4', fill: msg.isPinned ? 'currentColor' : 'none' })}
+                                            </button>
+                                            {msg.role === 'user' ? (
+                                                <button
+                                                    onClick={() => { setEditText(getMessageText(msg, '\n\n')); setEditingNodeId(node.id); }}
+                                                    disabled={isLoading}
+                                                    title="Edit and resend"
+                                                    className="p-1 rounded-md hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors disabled:opacity-40"
+                                                >
+                                                    {React.cloneElement(ICONS.PENCIL, { className: 'w-4 h-4' })}
+                                                </button>
+                                            ) : (
+                                                <button
+                                                    onClick={() => handleRegenerate(node)}
+                                                    disabled={isLoading}
+                                                    title="Regenerate"
+                                                    className="p-1 rounded-md hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] transition-colors disabled:opacity-40"
+                                                >
+                                                    {React.cloneElement(ICONS.ARROW_PATH, { className: 'w-4 h-4' })}
+                                                </button>
+                                            )}
+                                            {msg.role === 'model' && getMessageText(msg).trim() && (
+                                                <SpeechControls
+                                                    status={speech.playingKey === speechKey ? speech.status : null}
+                                                    onToggle={() => speech.toggle(speechKey, getMessageText(msg), activePersonaVoice)}
+                                                    onStop={speech.stop}
+                                                />
+                                            )}
+                                        </div>
+                                    )}
+                                    {showSuggestions && !isLoading && index === activePath.length - 1 && msg.suggestions && msg.suggestions.length > 0 && (
+                                        <motion.div initial={{ opacity: 0, y: 5 }} animate={{ opacity: 1, y: 0 }} className="flex flex-wrap gap-2 mt-3 ml-11">
+                                            {msg.suggestions.map(suggestion => (
+                                                <motion.button
+                                                    key={suggestion}
+                                                    onClick={() => handleSendSuggestion(suggestion)}
+                                                    whileHover={{ y: -2 }}
+                                                    className="px-3 py-1.5 text-sm glass-surface rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-overlay)] border border-[var(--accent-teal)]/20"
+                                                >
+                                                    {suggestion}
+                                                </motion.button>
+                                            ))}
+                                        </motion.div>
+                                    )}
+                                    {index === summaryIndex && (
+                                        <details className="mt-6 text-xs text-[var(--text-tertiary)]">
+                                            <summary className="cursor-pointer text-center list-none hover:text-[var(--text-primary)]">Messages above are summarized for the model · Show summary</summary>
+                                            <p className="mt-2 p-3 glass-surface rounded-lg whitespace-pre-wrap text-[var(--text-secondary)]">{activeSession.contextSummaries?.[node.id]}</p>
+                                        </details>
+                                    )}
+                                </motion.div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            ) : (
+                <ChatEmptyState onPromptClick={(prompt) => {
+                    setInput(prompt);
+                    setTimeout(() => handleSendMessage(prompt), 50);
+                }} />
+            )}
+            <ChatInputArea
+                input={input}
+                setInput={setInput}
+                onSendMessage={(text) => handleSendMessage(text)}
+                onStop={handleStop}
+                onOpenTools={() => setIsToolPickerOpen(true)}
+                enabledToolCount={enabledTools.length}
+                grounding={grounding}
+                onChangeGrounding={(grounding) => updateSession(s => ({ ...s, grounding }))}
+                attachments={attachments}
+                attachmentError={attachmentError}
+                onAddFiles={handleAddFiles}
+                onRemoveAttachment={handleRemoveAttachment}
+                isLoading={isLoading}
+            />
+            <ToolPickerModal isOpen={isToolPickerOpen} onClose={() => setIsToolPickerOpen(false)} enabledTools={enabledTools} setEnabledTools={setEnabledTools} />
+        </div>
+    );
+};
+
+
+// --- Live Agent Components ---
+const LiveOrb: React.FC<{ state: 'idle' | 'listening' | 'speaking' }> = ({ state }) => {
+    const states = {
+        idle: { scale: 1, opacity: 0.8, color1: '#0A1828', color2: '#1A5F7A' },
+        listening: { scale: 1.1, opacity: 1, color1: '#32B8C6', color2: '#21808D' },
+        speaking: { scale: 1.05, opacity: 1, color1: '#E68161', color2: '#A84F2F' }
+    };
+    return (
+        <div className="relative w-48 h-48 flex items-center justify-center">
+            <motion.div
+                className="absolute inset-0 rounded-full bg-gradient-to-br"
+                animate={{
+                    background: `radial-gradient(circle at 50% 50%, ${states[state].color1}, ${states[state].color2})`,
+                    scale: state === 'speaking' ? [1, 1.05, 1] : states[state].scale
+                }}
+                transition={{ duration: state === 'speaking' ? 0.7 : 1.5, repeat: state === 'speaking' ? Infinity : 0, ease: 'easeInOut' }}
+            />
+            <motion.div
+                className="absolute inset-0 rounded-full border-2 border-white/10"
+                animate={{
+                    scale: state === 'idle' ? [1, 1.05, 1] : 1.2,
+                    opacity: state === 'idle' ? [0.2, 0.4, 0.2] : 0,
+                }}
+                transition={{ duration: 4, repeat: Infinity, ease: 'easeInOut' }}
+            />
+        </div>
+    );
+};
+
+type LiveConnectionState = 'idle' | 'connecting' | 'listening' | 'speaking';
+type LiveVideoSource = 'camera' | 'screen';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const VIDEO_FRAME_MAX_WIDTH = 640;
+const VIDEO_FRAME_JPEG_QUALITY = 0.7;
+const VIDEO_FRAME_RATES = [0.5, 1, 2];
+
+const LiveAgent: React.FC<{
+    setSessions: React.Dispatch<React.SetStateAction<ChatSession[]>>;
+    onOpenSession: (sessionId: string) => void;
+    enabledTools: string[];
+    setEnabledTools: (tools: string[]) => void;
+    toolContext: ToolContext;
+    personas: Persona[];
+    onManagePersonas: () => void;
+}> = ({ setSessions, onOpenSession, enabledTools, setEnabledTools, toolContext, personas, onManagePersonas }) => {
+    const [connectionState, setConnectionState] = useState<LiveConnectionState>('idle');
+    const [isToolPickerOpen, setIsToolPickerOpen] = useState(false);
+    const [personaId, setPersonaId] = useState('default');
+    const [error, setError] = useState<string | null>(null);
+    const [transcript, setTranscript] = useState<ChatMessage[]>([]);
+    const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+    const [videoSource, setVideoSource] = useState<LiveVideoSource | null>(null);
+    const [frameRate, setFrameRate] = useState(1);
+
+    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+    const inputAudioContextRef = useRef<AudioContext | null>(null);
+    const outputAudioContextRef = useRef<AudioContext | null>(null);
+    const micStreamRef = useRef<MediaStream | null>(null);
+    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const playbackSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+    const nextStartTimeRef = useRef(0);
+    const isClosingRef = useRef(false);
+    const transcriptRef = useRef<ChatMessage[]>([]);
+    const personaIdRef = useRef(personaId);
+    personaIdRef.current = personaId;
+    const personasRef = useRef(personas);
+    personasRef.current = personas;
+    // The live callbacks outlive renders, so tools read the latest app state through a ref.
+    const toolContextRef = useRef(toolContext);
+    toolContextRef.current = toolContext;
+    const transcriptEndRef = useRef<HTMLDivElement>(null);
+    const videoStreamRef = useRef<MediaStream | null>(null);
+    const videoPreviewRef = useRef<HTMLVideoElement>(null);
+    const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    useEffect(() => {
+        transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [transcript]);
+
+    const isSessionActive = connectionState !== 'idle';
+    const isConnected = connectionState === 'listening' || connectionState === 'speaking';
+    const activePersona = personas.find(p => p.id === personaId) || personas[0];
+
+    const stopPlayback = () => {
+        playbackSourcesRef.current.forEach(source => {
+            try { source.stop(); } catch { /* already stopped */ }
+        });
+        playbackSourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+    };
+
+    // Transcription arrives in fragments; consecutive fragments from the same speaker form one utterance.
+    const appendTranscript = (role: ChatMessage['role'], text: string) => {
+        const messages = transcriptRef.current;
+        const last = messages[messages.length - 1];
+        transcriptRef.current = last?.role === role
+            ? [...messages.slice(0, -1), { ...last, parts: [{ text: (last.parts[0].text || '') + text }] }]
+            : [...messages, { role, parts: [{ text }] }];
+        setTranscript(transcriptRef.current);
+    };
+
+    // Attaches a tool call to the current model utterance, or updates it once it has finished.
+    const upsertTranscriptToolCall = (toolCall: ToolCall) => {
+        const messages = transcriptRef.current;
+        const last = messages[messages.length - 1];
+        if (last?.role === 'model') {
+            const toolCalls = last.toolCalls?.some(t => t.id === toolCall.id)
+                ? last.toolCalls.map(t => t.id === toolCall.id ? toolCall : t)
+                : [...(last.toolCalls || []), toolCall];
+            transcriptRef.current = [...messages.slice(0, -1), { ...last, toolCalls }];
+        } else {
+            transcriptRef.current = [...messages, { role: 'model', parts: [{ text: '' }], toolCalls: [toolCall] }];
+        }
+        setTranscript(transcriptRef.current);
+    };
+
+    const handleToolCalls = async (functionCalls: FunctionCall[]) => {
+        const functionResponses = [];
+        for (const call of functionCalls) {
+            const pending = toToolCall(call);
+            upsertTranscriptToolCall(pending);
+            const finished = await executeToolCall(pending, toolContextRef.current);
+            upsertTranscriptToolCall(finished);
+            functionResponses.push({ id: call.id, name: call.name, response: finished.result });
+        }
+        sessionPromiseRef.current?.then(session => session.sendToolResponse({ functionResponses }));
+    };
+
+    const saveTranscript = useCallback(() => {
+        const messages = transcriptRef.current
+            .map(m => ({ ...m, parts: [{ text: (m.parts[0].text || '').trim() }] }))
+            .filter(m => m.parts[0].text || m.toolCalls?.length);
+        transcriptRef.current = [];
+        if (messages.length === 0) return;
+
+        const persona = personasRef.current.find(p => p.id === personaIdRef.current) || personasRef.current[0];
+        const firstUserText = messages.find(m => m.role === 'user')?.parts[0].text;
+        const newSession = createSession({
+            id: `session-${Date.now()}`,
+            title: firstUserText
+                ? firstUserText.substring(0, 25) + (firstUserText.length > 25 ? "..." : "")
+                : `Voice chat with ${persona.name}`,
+            createdAt: Date.now(),
+            personaId: persona.id,
+        }, messages);
+        setSessions(prev => [newSession, ...prev]);
+        setSavedSessionId(newSession.id);
+    }, [setSessions]);
+
+    const stopVideoSource = useCallback(() => {
+        videoStreamRef.current?.getTracks().forEach(track => track.stop());
+        videoStreamRef.current = null;
+        setVideoSource(null);
+    }, []);
+
+    const cleanupSession = useCallback(() => {
+        isClosingRef.current = true;
+        saveTranscript();
+        stopVideoSource();
+        sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
+        sessionPromiseRef.current = null;
+
+        scriptProcessorRef.current?.disconnect();
+        scriptProcessorRef.current = null;
+        micStreamRef.current?.getTracks().forEach(track => track.stop());
+        micStreamRef.current = null;
+
+        stopPlayback();
+        inputAudioContextRef.current?.close();
+        inputAudioContextRef.current = null;
+        outputAudioContextRef.current?.close();
+        outputAudioContextRef.current = null;
+
+        setConnectionState('idle');
+    }, [saveTranscript, stopVideoSource]);
+
+    useEffect(() => cleanupSession, [cleanupSession]);
+
+    useEffect(() => {
+        if (videoPreviewRef.current) videoPreviewRef.current.srcObject = videoStreamRef.current;
+    }, [videoSource]);
+
+    // Streams downscaled JPEG snapshots of the active video source into the live session.
+    useEffect(() => {
+        if (!videoSource || !isConnected) return;
+
+        const captureFrame = () => {
+            const video = videoPreviewRef.current;
+            if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+            const canvas = frameCanvasRef.current ?? (frameCanvasRef.current = document.createElement('canvas'));
+            const scale = Math.min(1, VIDEO_FRAME_MAX_WIDTH / video.videoWidth);
+            canvas.width = Math.round(video.videoWidth * scale);
+            canvas.height = Math.round(video.videoHeight * scale);
+            canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+            canvas.toBlob(async (blob) => {
+                if (!blob) return;
+                const data = await blobToBase64(blob);
+                sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ video: { data, mimeType: 'image/jpeg' } }));
+            }, 'image/jpeg', VIDEO_FRAME_JPEG_QUALITY);
+        };
+
+        const intervalId = window.setInterval(captureFrame, 1000 / frameRate);
+        return () => window.clearInterval(intervalId);
+    }, [videoSource, frameRate, isConnected]);
+
+    const handleToggleVideoSource = async (source: LiveVideoSource) => {
+        const isSameSource = videoSource === source;
+        stopVideoSource();
+        if (isSameSource) return;
+
+        try {
+            const stream = source === 'camera'
+                ? await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 } } })
+                : await navigator.mediaDevices.getDisplayMedia({ video: true });
+            // Covers the browser's own "Stop sharing" control as well as an unplugged camera.
+            stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+                if (videoStreamRef.current === stream) stopVideoSource();
+            });
+            videoStreamRef.current = stream;
+            setVideoSource(source);
+        } catch (err: any) {
+            console.error(err);
+            // Dismissing the screen picker rejects with NotAllowedError; that's not worth an error message.
+            if (source === 'camera' || err?.name !== 'NotAllowedError') {
+                setError(source === 'camera' ? "Could not access camera. Please check permissions." : "Could not start screen sharing.");
+            }
+        }
+    };
+
+    const handleServerMessage = async (message: LiveServerMessage) => {
+        const inputText = message.serverContent?.inputTranscription?.text;
+        if (inputText) appendTranscript('user', inputText);
+        const outputText = message.serverContent?.outputTranscription?.text;
+        if (outputText) appendTranscript('model', outputText);
+
+        if (message.toolCall?.functionCalls?.length) {
+            await handleToolCalls(message.toolCall.functionCalls);
+        }
+
+        // The server detected user speech over our playback (barge-in): drop everything queued.
+        if (message.serverContent?.interrupted) {
+            stopPlayback();
+            setConnectionState('listening');
+        }
+
+        const audioChunks = (message.serverContent?.modelTurn?.parts || []).flatMap(p =>
+            p.inlineData?.data && (!p.inlineData.mimeType || p.inlineData.mimeType.startsWith('audio/')) ? [p.inlineData.data] : []);
+        const outputCtx = outputAudioContextRef.current;
+        if (audioChunks.length === 0 || !outputCtx) return;
+
+        // A turn can carry several audio parts; each is scheduled in order so no words are dropped.
+        for (const base64Audio of audioChunks) {
+            const audioBuffer = await decodeAudioData(decode(base64Audio), outputCtx, OUTPUT_SAMPLE_RATE, 1);
+            if (outputAudioContextRef.current !== outputCtx) return;
+
+            // Chunks are queued back to back on the context clock so playback stays gapless.
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+            const source = outputCtx.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(outputCtx.destination);
+            source.addEventListener('ended', () => {
+                playbackSourcesRef.current.delete(source);
+                if (playbackSourcesRef.current.size === 0 && !isClosingRef.current) {
+                    setConnectionState('listening');
+                }
+            });
+            source.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += audioBuffer.duration;
+            playbackSourcesRef.current.add(source);
+        }
+        setConnectionState('speaking');
+    };
+
+    const startSession = async () => {
+        setError(null);
+        setConnectionState('connecting');
+        setTranscript([]);
+        setSavedSessionId(null);
+        isClosingRef.current = false;
+        transcriptRef.current = [];
+
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (err) {
+            console.error("Error accessing microphone:", err);
+            setError("Could not access microphone. Please check permissions.");
+            setConnectionState('idle');
+            return;
+        }
+        micStreamRef.current = stream;
+
+        const inputCtx = new AudioContext({ sampleRate: INPUT_SAMPLE_RATE });
+        const outputCtx = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+        inputAudioContextRef.current = inputCtx;
+        outputAudioContextRef.current = outputCtx;
+
+        try {
+            const ai = getAi();
+            const functionDeclarations = getFunctionDeclarations(enabledTools);
+            const sessionPromise = ai.live.connect({
+                model: LIVE_MODEL,
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    systemInstruction: functionDeclarations.length > 0
+                        ? `${activePersona.prompt}\n\n${getToolSystemInstruction()}`
+                        : activePersona.prompt,
+                    ...(functionDeclarations.length > 0 && { tools: [{ functionDeclarations }] }),
+                    inputAudioTranscription: {},
+                    outputAudioTranscription: {},
+                    speechConfig: {
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName: activePersona.voiceId } },
+                    },
+                },
+                callbacks: {
+                    onopen: () => {
+                        const source = inputCtx.createMediaStreamSource(stream);
+                        const processor = inputCtx.createScriptProcessor(4096, 1, 1);
+                        processor.onaudioprocess = (event) => {
+                            const pcmBlob = createPcmBlob(event.inputBuffer.getChannelData(0), INPUT_SAMPLE_RATE);
+                            sessionPromise.then(session => session.sendRealtimeInput({ audio: pcmBlob }));
+                        };
+                        source.connect(processor);
+                        processor.connect(inputCtx.destination);
+                        scriptProcessorRef.current = processor;
+                        setConnectionState('listening');
+                    },
+                    onmessage: (message: LiveServerMessage) => {
+                        handleServerMessage(message).catch(err => console.error(err));
+                    },
+                    onerror: (e: ErrorEvent) => {
+                        console.error(e);
+                        setError(`Connection error: ${e.message || 'the live session failed.'}`);
+                        cleanupSession();
+                    },
+                    onclose: (e: CloseEvent) => {
+                        if (!isClosingRef.current) {
+                            setError(e.reason ? `Connection closed: ${e.reason}` : 'The live session was closed unexpectedly.');
+                            cleanupSession();
+                        }
+                    },
+                },
+            });
+            sessionPromiseRef.current = sessionPromise;
+            await sessionPromise;
+        } catch (err: any) {
+            console.error(err);
+            setError(`Could not connect to the live agent: ${err?.message || 'unknown error'}`);
+            cleanupSession();
+        }
+    };
+
+    const handleToggleSession = () => {
+        if (isSessionActive) {
+            cleanupSession();
+        } else {
+            startSession();
+        }
+    };
+
+    const statusText = {
+        idle: "Press the button to start a live conversation with your AI agent.",
+        connecting: "Connecting...",
+        listening: "I'm listening...",
+        speaking: "Speaking... start talking to interrupt.",
+    };
+    
+    const videoControls: { source: LiveVideoSource; icon: React.ReactElement; label: string }[] = [
+        { source: 'camera', icon: ICONS.VIDEO_ON, label: 'Camera' },
+        { source: 'screen', icon: ICONS.SCREEN_SHARE, label: 'Share screen' },
+    ];
+
+    return (
+        <div className="relative h-full flex flex-col items-center justify-center text-center p-4 space-y-8 overflow-y-auto">
+            <div className={`flex items-center gap-2 ${isSessionActive ? 'pointer-events-none opacity-50' : ''}`}>
+                <PersonaSelector personas={personas} selectedPersonaId={personaId} onSelect={setPersonaId} onManage={onManagePersonas} />
+                <PremiumButton variant="secondary" size="icon" title="Agent tools" onClick={() => setIsToolPickerOpen(true)}>
+                    {React.cloneElement(ICONS.LIVE_TOOLS, { className: 'w-5 h-5' })}
+                </PremiumButton>
+            </div>
+            <AnimatePresence>
+                <motion.div initial={{opacity: 0, scale: 0.8}} animate={{opacity: 1, scale: 1}} exit={{opacity: 0, scale: 0.8}}>
+                    <LiveOrb state={connectionState === 'connecting' ? 'idle' : connectionState} />
+                </motion.div>
+            </AnimatePresence>
+            <div>
+                 <h2 className="text-2xl font-semibold mb-2 capitalize">{isSessionActive ? connectionState : "Ready"}</h2>
+                 <p className="text-[var(--text-secondary)] max-w-sm mx-auto">{statusText[connectionState]}</p>
+                 {error && <p className="text-red-400 max-w-sm mx-auto mt-3">{error}</p>}
+            </div>
+            <PremiumButton onClick={handleToggleSession} disabled={connectionState === 'connecting'} variant="primary" size="default" className="w-48">
+                {isSessionActive ? 'End Session' : 'Start Session'}
+            </PremiumButton>
+            {isConnected && (
+                <div className="flex items-center gap-2">
+                    {videoControls.map(({ source, icon, label }) => (
+                        <PremiumButton
+                            key={source}
+                            variant={videoSource === source ? 'primary' : 'secondary'}
+                            size="icon"
+                            title={videoSource === source ? `Stop ${label.toLowerCase()}` : label}
+                            onClick={() => handleToggleVideoSource(source)}
+                        >
+                            {React.cloneElement(icon, { className: 'w-5 h-5' })}
+                        </PremiumButton>
+                    ))}
+                    <select
+                        value={frameRate}
+                        onChange={(e) => setFrameRate(Number(e.target.value))}
+                        title="Frames sent per second"
+                        className="h-10 px-2 rounded-lg bg-[var(--surface-elevated)] text-sm text-[var(--text-secondary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                    >
+                        {VIDEO_FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+                    </select>
+                </div>
+            )}
+            {videoSource && (
+                <div className="absolute bottom-4 right-4 w-48 rounded-lg overflow-hidden glass-surface shadow-premium !mt-0">
+                    <video ref={videoPreviewRef} autoPlay muted playsInline className="w-full aspect-video object-cover bg-black" />
+                    <p className="text-xs text-[var(--text-secondary)] py-1">{videoSource === 'camera' ? 'Camera' : 'Screen'} • {frameRate} fps</p>
+                </div>
+            )}
+            {transcript.length > 0 && (
+                <div className="w-full max-w-xl max-h-64 overflow-y-auto glass-surface rounded-xl p-4 space-y-2 text-left">
+                    {transcript.map((msg, index) => (
+                        <div key={index} className="text-sm">
+                            <span className={`font-medium ${msg.role === 'user' ? 'text-[var(--text-secondary)]' : 'text-[var(--accent-teal)]'}`}>
+                                {msg.role === 'user' ? 'You' : activePersona.name.split(',')[0]}:
+                            </span>{' '}
+                            {msg.parts[0].text}
+                            {msg.toolCalls && msg.toolCalls.length > 0 && <div className="mt-1"><ToolCallList toolCalls={msg.toolCalls} /></div>}
+                        </div>
+                    ))}
+                    <div ref={transcriptEndRef} />
+                </div>
+            )}
+            <ToolPickerModal isOpen={isToolPickerOpen} onClose={() => setIsToolPickerOpen(false)} enabledTools={enabledTools} setEnabledTools={setEnabledTools} />
+            {savedSessionId && !isSessionActive && (
+                <div className="flex items-center gap-3 text-sm text-[var(--text-secondary)]">
+                    <span>Transcript saved to Conversations.</span>
+                    <PremiumButton variant="secondary" className="!px-4 !py-2 !text-sm" onClick={() => onOpenSession(savedSessionId)}>
+                        Continue in Chat →
+                    </PremiumButton>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Media Suite Components ---
 
-        setInput('');
-        setIsLoading(true);
+type MediaStudio = 'generate' | 'edit' | 'video' | 'transcribe';
+type OnAssetCreated = (asset: Omit<MediaAsset, 'id' | 'createdAt'>) => string;
 
-        try {
-            const ai = getAi();
-            const activePersona = defaultPersonas.find(p => p.id === activeSession.personaId) || defaultPersonas[0];
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: [...activeSession.messages, newUserMessage].map(m => ({ role: m.role, parts: m.parts })),
-                config: {
-                    systemInstruction: activePersona.prompt,
-                }
-            });
+// What a studio opens with: its latest result, or a prompt or image sent over from the library.
+interface MediaDraft {
+    prompt?: string;
+    originalPrompt?: string;
+    negativePrompt?: string;
+    model?: string;
+    aspectRatio?: string;
+    seed?: number;
+    sourceImage?: Blob;
+    result?: Blob;
+    resultIds?: string[]; // Library assets shown as the studio's results
+    editSessionId?: string;
+    text?: string;
+}
 
-            const modelMessage: ChatMessage = { role: 'model', parts: [{ text: response.text }] };
-            updateSession(s => ({ ...s, messages: [...s.messages, newUserMessage, modelMessage], title: newTitle }));
+const STUDIO_FOR_ASSET_KIND: Record<MediaAsset['kind'], MediaStudio> = {
+    image: 'generate',
+    edit: 'edit',
+    video: 'video',
+    transcript: 'transcribe',
+};
 
-        } catch (error) {
-            console.error(error);
-            const errorMessage: ChatMessage = { role: 'model', parts: [{ text: "Sorry, I encountered an error. Please try again." }] };
-            updateSession(s => ({ ...s, messages: [...s.messages, newUserMessage, errorMessage], title: newTitle }));
+const PromptEnhancer: React.FC<{
+    prompt: string;
+    target: PromptTarget;
+    originalPrompt?: string;
+    disabled?: boolean;
+    onApply: (prompt: string, originalPrompt: string | undefined) => void;
+}> = ({ prompt, target, originalPrompt, disabled, onApply }) => {
+    const [style, setStyle] = useState<PromptStylePreset>('none');
+    const [proposal, setProposal] = useState<string | null>(null);
+    const [isEnhancing, setIsEnhancing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showOriginal, setShowOriginal] = useState(false);
+
+    const handleEnhance = async () => {
+        setIsEnhancing(true);
+        setError(null);
+        try {
+            setProposal(await enhancePrompt(prompt.trim(), target, style));
+        } catch (e) {
+            console.error(e);
+            setError('Could not enhance the prompt. Please try again.');
         } finally {
-            setIsLoading(false);
+            setIsEnhancing(false);
         }
     };
 
-    const handleSelectPersona = (personaId: string) => {
-        updateSession(s => ({ ...s, personaId }));
-    };
-    
+    const renderDiff = (before: string, after: string) => (
+        <p className="text-xs leading-relaxed max-h-40 overflow-y-auto">
+            {diffWords(before, after).map((segment, i) => (
+                <span key={i} className={segment.type === 'added' ? 'text-[var(--accent-teal)] bg-[var(--accent-teal)]/10' : segment.type === 'removed' ? 'text-red-300 line-through' : 'text-[var(--text-secondary)]'}>{segment.text}</span>
+            ))}
+        </p>
+    );
+
     return (
-        <div className="flex flex-col h-full bg-transparent">
-            {activeSession && activeSession.messages.length > 0 ? (
-                <div className="flex-1 min-h-0 flex flex-col">
-                    <div className="p-4 border-b border-[var(--border-color)] flex items-center justify-center">
-                         <PersonaSelector 
-                            personas={defaultPersonas}
-                            selectedPersonaId={activeSession.personaId || 'default'}
-                            onSelect={handleSelectPersona}
-                         />
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <select
+                    value={style}
+                    onChange={(e) => setStyle(e.target.value as PromptStylePreset)}
+                    disabled={disabled || isEnhancing}
+                    className="flex-1 min-w-0 p-2 bg-[var(--surface-elevated)] rounded-lg text-sm text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                >
+                    {PROMPT_STYLE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                </select>
+                <button
+                    onClick={handleEnhance}
+                    disabled={disabled || isEnhancing || !prompt.trim()}
+                    title="Rewrite as a detailed prompt"
+                    className="flex items-center gap-1.5 px-3 rounded-lg text-sm bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)] text-[var(--accent-teal)] disabled:opacity-50"
+                >
+                    {isEnhancing ? <Loader /> : React.cloneElement(ICONS.SPARKLES, { className: 'w-4 h-4' })}
+                    Enhance
+                </button>
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {proposal !== null ? (
+                <div className="p-3 rounded-lg bg-[var(--surface-elevated)] border border-[var(--accent-teal)]/30 space-y-2">
+                    {renderDiff(prompt, proposal)}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setProposal(null)} className="px-3 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)]">Discard</button>
+                        <button
+                            onClick={() => { onApply(proposal, originalPrompt ?? prompt); setProposal(null); }}
+                            className="px-3 py-1 rounded-md text-xs bg-gradient-accent text-slate-900 font-semibold"
+                        >
+                            Accept
+                        </button>
                     </div>
-                    <div ref={chatContainerRef} className="flex-1 w-full overflow-y-auto">
-                        <div className="p-4 md:p-6 space-y-6 max-w-3xl mx-auto">
-                            {activeSession.messages.map((msg, index) => (
-                                <motion.div key={index} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
-                                    <div className={`flex items-start gap-3 w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                        {msg.role === 'model' && 
-                                            <div className="w-8 h-8 rounded-full bg-gradient-accent flex items-center justify-center text-slate-900 flex-shrink-0 mt-1">
-                                                {React.cloneElement(ICONS.LOGO, {strokeWidth: 2})}
-                                            </div>
-                                        }
-                                        <div className={`max-w-xl p-3 px-4 ${msg.role === 'user' 
-                                            ? 'bg-[rgba(252,252,249,0.12)] border border-[rgba(94,82,64,0.2)] rounded-[16px_16px_4px_16px]' 
-                                            : 'glass-surface rounded-[16px_16px_16px_4px]'}
-                                        `}>
-                                            {renderMessageContent(msg, activeSession.personaId)}
-                                        </div>
-                                    </div>
-                                </motion.div>
-                            ))}
-                            {isLoading && <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}><div className="flex justify-start"><Loader text="Thinking..." /></div></motion.div>}
-                        </div>
+                </div>
+            ) : originalPrompt !== undefined && (
+                <div className="text-xs text-[var(--text-tertiary)] space-y-1">
+                    <div className="flex items-center gap-2">
+                        <span>Enhanced prompt</span>
+                        <button onClick={() => setShowOriginal(!showOriginal)} className="hover:text-[var(--text-primary)] underline">{showOriginal ? 'Hide changes' : 'Show changes'}</button>
+                        <button onClick={() => onApply(originalPrompt, undefined)} disabled={disabled} className="hover:text-[var(--text-primary)] underline">Revert</button>
                     </div>
+                    {showOriginal && renderDiff(originalPrompt, prompt)}
                 </div>
-            ) : (
-                <ChatEmptyState onPromptClick={(prompt) => {
-                    setInput(prompt);
-                    setTimeout(() => handleSendMessage(prompt), 50);
-                }} />
             )}
-            <ChatInputArea input={input} setInput={setInput} onSendMessage={() => handleSendMessage()} isLoading={isLoading} />
-        </div>
-    );
-};
-
-
-// --- Live Agent Components ---
-const LiveOrb: React.FC<{ state: 'idle' | 'listening' | 'speaking' }> = ({ state }) => {
-    const states = {
-        idle: { scale: 1, opacity: 0.8, color1: '#0A1828', color2: '#1A5F7A' },
-        listening: { scale: 1.1, opacity: 1, color1: '#32B8C6', color2: '#21808D' },
-        speaking: { scale: 1.05, opacity: 1, color1: '#E68161', color2: '#A84F2F' }
-    };
-    return (
-        <div className="relative w-48 h-48 flex items-center justify-center">
-            <motion.div
-                className="absolute inset-0 rounded-full bg-gradient-to-br"
-                animate={{
-                    background: `radial-gradient(circle at 50% 50%, ${states[state].color1}, ${states[state].color2})`,
-                    scale: state === 'speaking' ? [1, 1.05, 1] : states[state].scale
-                }}
-                transition={{ duration: state === 'speaking' ? 0.7 : 1.5, repeat: state === 'speaking' ? Infinity : 0, ease: 'easeInOut' }}
-            />
-            <motion.div
-                className="absolute inset-0 rounded-full border-2 border-white/10"
-                animate={{
-                    scale: state === 'idle' ? [1, 1.05, 1] : 1.2,
-                    opacity: state === 'idle' ? [0.2, 0.4, 0.2] : 0,
-                }}
-                transition={{ duration: 4, repeat: Infinity, ease: 'easeInOut' }}
-            />
         </div>
     );
 };
 
-const LiveAgent: React.FC<{}> = () => {
-    const [isSessionActive, setIsSessionActive] = useState(false);
-    const [conversationState, setConversationState] = useState<'idle' | 'listening' | 'speaking'>('idle');
+type BatchItem = { prompt: string; status: 'pending' | 'running' | 'done' | 'error'; assetIds: string[] };
 
-    // ... (rest of the LiveAgent logic would be here, simplified for UI focus)
-    const handleToggleSession = () => {
-        setIsSessionActive(!isSessionActive);
-        if(!isSessionActive) {
-            setConversationState('listening');
-        } else {
-            setConversationState('idle');
-        }
-    }
-    
+const GeneratedImageCard: React.FC<{ asset: MediaAsset; isBusy: boolean; onToggleFavorite: () => void; onVariations: () => void }> = ({ asset, isBusy, onToggleFavorite, onVariations }) => {
+    const url = useObjectUrl(asset.file);
     return (
-        <div className="h-full flex flex-col items-center justify-center text-center p-4 space-y-8">
-            <AnimatePresence>
-                <motion.div initial={{opacity: 0, scale: 0.8}} animate={{opacity: 1, scale: 1}} exit={{opacity: 0, scale: 0.8}}>
-                    <LiveOrb state={isSessionActive ? conversationState : 'idle'} />
-                </motion.div>
-            </AnimatePresence>
-            <div>
-                 <h2 className="text-2xl font-semibold mb-2 capitalize">{isSessionActive ? conversationState : "Ready"}</h2>
-                 <p className="text-[var(--text-secondary)] max-w-sm mx-auto">
-                    {isSessionActive 
-                        ? (conversationState === 'listening' ? "I'm listening..." : "Connecting...")
-                        : "Press the button to start a live conversation with your AI agent."
-                    }
-                </p>
+        <div className="group relative min-h-0 flex items-center justify-center rounded-lg bg-black/20 overflow-hidden">
+            {url && <img src={url} alt={asset.prompt} className="max-w-full max-h-full object-contain" />}
+            <div className="absolute inset-x-0 bottom-0 p-2 flex items-center gap-2 bg-gradient-to-t from-black/70 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+                {asset.seed !== undefined && <span className="text-[11px] text-white/80 tabular-nums">Seed {asset.seed}</span>}
+                <button onClick={onVariations} disabled={isBusy} className="ml-auto px-2 py-1 rounded-md text-xs text-white bg-white/10 hover:bg-white/20 disabled:opacity-50">Variations</button>
             </div>
-            <PremiumButton onClick={handleToggleSession} variant="primary" size="default" className="w-48">
-                {isSessionActive ? 'End Session' : 'Start Session'}
-            </PremiumButton>
+            <button
+                onClick={onToggleFavorite}
+                title={asset.isFavorite ? 'Remove from favorites' : 'Pick as favorite'}
+                className={`absolute top-2 right-2 p-1.5 rounded-full bg-black/50 transition-opacity ${asset.isFavorite ? 'text-[var(--accent-gold)]' : 'text-white opacity-0 group-hover:opacity-100'}`}
+            >
+                {React.cloneElement(ICONS.STAR, { className: 'w-4 h-4', fill: asset.isFavorite ? 'currentColor' : 'none' })}
+            </button>
         </div>
     );
 };
 
-// --- Media Suite Components ---
-
-const ImageGenerationStudio = () => {
-    const [prompt, setPrompt] = useState('');
-    const [aspectRatio, setAspectRatio] = useState('1:1');
+const ImageGenerationStudio: React.FC<{
+    assets: MediaAsset[];
+    onAssetCreated: OnAssetCreated;
+    onUpdateAsset: (id: string, changes: Partial<MediaAsset>) => void;
+    draft?: MediaDraft;
+}> = ({ assets, onAssetCreated, onUpdateAsset, draft }) => {
+    const [mode, setMode] = useState<'single' | 'batch'>('single');
+    const [prompt, setPrompt] = useState(draft?.prompt || '');
+    // The idea an accepted enhancement was made from. Editing the prompt by hand clears it, so an
+    // asset is only labelled as enhanced while its prompt is the accepted enhancement.
+    const [originalPrompt, setOriginalPrompt] = useState(draft?.originalPrompt);
+    const [batchPrompts, setBatchPrompts] = useState('');
+    const [negativePrompt, setNegativePrompt] = useState(draft?.negativePrompt || '');
+    const [model, setModel] = useState(IMAGE_MODELS.some(m => m.id === draft?.model) ? draft!.model! : IMAGE_MODELS[0].id);
+    const [aspectRatio, setAspectRatio] = useState(draft?.aspectRatio || '1:1');
+    const [imageCount, setImageCount] = useState(1);
+    const [seed, setSeed] = useState(draft?.seed !== undefined ? String(draft.seed) : '');
     const [isLoading, setIsLoading] = useState(false);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const [loadingText, setLoadingText] = useState('');
+    const [resultIds, setResultIds] = useState<string[]>(draft?.resultIds || []);
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const cancelBatchRef = useRef(false);
+
+    const supportsSeed = IMAGE_MODELS.find(m => m.id === model)?.supportsSeed ?? false;
+    const results = resultIds.map(id => assets.find(a => a.id === id)).filter((a): a is MediaAsset => !!a);
 
     const aspectRatios = [
         { value: '1:1', icon: ICONS.ASPECT_1_1, label: 'Square' },
@@ -495,27 +2640,52 @@ const ImageGenerationStudio = () => {
         { value: '3:4', icon: ICONS.ASPECT_3_4, label: 'Tall' },
     ];
 
+    // Each run's images are saved to the library as they arrive, grouped by a shared batch id.
+    const saveImages = (images: GeneratedImageData[], fields: Omit<MediaAsset, 'id' | 'createdAt' | 'kind' | 'file'>): string[] => {
+        const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+        return images.map(image => onAssetCreated({
+            ...fields,
+            kind: 'image',
+            batchId,
+            file: base64ToBlob(image.data, image.mimeType),
+            ...(image.seed !== undefined && { seed: image.seed }),
+        }));
+    };
+
+    const runPrompt = async (text: string, seedValue: number | undefined, enhancedFrom?: string): Promise<string[]> => {
+        const images = await generateImages({ model, prompt: text, negativePrompt, aspectRatio, count: imageCount, seed: seedValue });
+        return saveImages(images, {
+            prompt: text,
+            model,
+            aspectRatio,
+            ...(enhancedFrom !== undefined && { originalPrompt: enhancedFrom }),
+            ...(negativePrompt.trim() && { negativePrompt: negativePrompt.trim() }),
+        });
+    };
+
+    // Returns null (and shows an error) when the seed field holds something other than a whole number.
+    const parseSeed = (): number | undefined | null => {
+        if (!supportsSeed || !seed.trim()) return undefined;
+        const value = Number(seed);
+        if (!Number.isInteger(value) || value < 0 || value > MAX_SEED) {
+            setError(`Seed must be a whole number between 0 and ${MAX_SEED}.`);
+            return null;
+        }
+        return value;
+    };
+
     const handleGenerate = async () => {
         if (!prompt) {
             setError('Please enter a prompt.');
             return;
         }
+        const seedValue = parseSeed();
+        if (seedValue === null) return;
         setIsLoading(true);
+        setLoadingText('Creating your masterpiece...');
         setError(null);
-        setGeneratedImage(null);
         try {
-            const ai = getAi();
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: prompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: aspectRatio as any,
-                },
-            });
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-            setGeneratedImage(`data:image/jpeg;base64,${base64ImageBytes}`);
+            setResultIds(await runPrompt(prompt, seedValue, originalPrompt));
         } catch (e) {
             console.error(e);
             setError('Failed to generate image. Please try again.');
@@ -524,17 +2694,111 @@ const ImageGenerationStudio = () => {
         }
     };
 
+    const handleRunBatch = async () => {
+        const prompts = batchPrompts.split('\n').map(p => p.trim()).filter(Boolean);
+        if (prompts.length === 0) {
+            setError('Enter at least one prompt, one per line.');
+            return;
+        }
+        const seedValue = parseSeed();
+        if (seedValue === null) return;
+        setIsLoading(true);
+        setError(null);
+        cancelBatchRef.current = false;
+        setBatchItems(prompts.map(p => ({ prompt: p, status: 'pending', assetIds: [] })));
+        const updateItem = (index: number, changes: Partial<BatchItem>) =>
+            setBatchItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+
+        // Prompts run one at a time to stay within rate limits; a failed prompt doesn't stop the rest.
+        for (let i = 0; i < prompts.length && !cancelBatchRef.current; i++) {
+            updateItem(i, { status: 'running' });
+            try {
+                updateItem(i, { status: 'done', assetIds: await runPrompt(prompts[i], seedValue) });
+            } catch (e) {
+                console.error(e);
+                updateItem(i, { status: 'error' });
+            }
+        }
+        setIsLoading(false);
+    };
+
+    const handleVariations = async (asset: MediaAsset) => {
+        if (!asset.file) return;
+        setMode('single');
+        setIsLoading(true);
+        setLoadingText('Creating variations...');
+        setError(null);
+        try {
+            const images = await generateVariations({ data: await blobToBase64(asset.file), mimeType: asset.file.type }, asset.prompt, asset.aspectRatio || '1:1', imageCount);
+            setResultIds(saveImages(images, {
+                prompt: asset.prompt,
+                model: GEMINI_IMAGE_MODEL,
+                aspectRatio: asset.aspectRatio,
+                sourceImage: asset.file,
+                ...(asset.originalPrompt !== undefined && { originalPrompt: asset.originalPrompt }),
+            }));
+        } catch (e) {
+            console.error(e);
+            setError('Failed to create variations. Please try again.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const finishedCount = batchItems.filter(item => item.status === 'done' || item.status === 'error').length;
+
     return (
         <div className="h-full flex flex-col lg:flex-row gap-6">
             <div className="lg:w-1/3 flex flex-col gap-4">
-                <h3 className="text-lg font-semibold text-[var(--text-primary)]">Image Generation</h3>
-                <textarea
-                    value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    placeholder="Describe the image you want to create... e.g., 'A robot holding a red skateboard.'"
-                    className="w-full h-32 p-3 bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none"
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-[var(--text-primary)]">Image Generation</h3>
+                    <div className="flex p-0.5 rounded-lg bg-[var(--surface-elevated)] text-xs">
+                        {(['single', 'batch'] as const).map(m => (
+                            <button key={m} onClick={() => setMode(m)} disabled={isLoading} className={`px-3 py-1 rounded-md capitalize transition-colors ${mode === m ? 'bg-gradient-accent text-slate-900' : 'text-[var(--text-secondary)]'}`}>{m}</button>
+                        ))}
+                    </div>
+                </div>
+                {mode === 'single' ? (
+                    <>
+                        <textarea
+                            value={prompt}
+                            onChange={(e) => { setPrompt(e.target.value); setOriginalPrompt(undefined); }}
+                            placeholder="Describe the image you want to create... e.g., 'A robot holding a red skateboard.'"
+                            className="w-full h-32 p-3 bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none"
+                            disabled={isLoading}
+                        />
+                        <PromptEnhancer
+                            prompt={prompt}
+                            target="image"
+                            originalPrompt={originalPrompt}
+                            disabled={isLoading}
+                            onApply={(next, original) => { setPrompt(next); setOriginalPrompt(original); }}
+                        />
+                    </>
+                ) : (
+                    <textarea
+                        value={batchPrompts}
+                        onChange={(e) => setBatchPrompts(e.target.value)}
+                        placeholder={'One prompt per line, e.g.\nA lighthouse at dawn\nA lighthouse in a storm'}
+                        className="w-full h-32 p-3 bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none"
+                        disabled={isLoading}
+                    />
+                )}
+                <input
+                    value={negativePrompt}
+                    onChange={(e) => setNegativePrompt(e.target.value)}
+                    placeholder="Negative prompt (things to avoid)"
+                    className="w-full p-3 text-sm bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
                     disabled={isLoading}
                 />
+                <div>
+                    <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">Model</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {IMAGE_MODELS.map(m => (
+                            <button key={m.id} onClick={() => setModel(m.id)} disabled={isLoading} className={`p-2 rounded-lg text-sm transition-colors ${model === m.id ? 'bg-gradient-accent text-slate-900' : 'bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)]'}`}>{m.label}</button>
+                        ))}
+                    </div>
+                </div>
                 <div>
                     <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">Aspect Ratio</label>
                     <div className="grid grid-cols-5 gap-2">
@@ -551,49 +2815,194 @@ const ImageGenerationStudio = () => {
                         ))}
                     </div>
                 </div>
-                <PremiumButton onClick={handleGenerate} disabled={isLoading} className="w-full">
-                    {isLoading ? <Loader text="Generating..." /> : 'Generate Image'}
-                </PremiumButton>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">Images</label>
+                        <div className="grid grid-cols-4 gap-1">
+                            {Array.from({ length: MAX_IMAGES_PER_RUN }, (_, i) => i + 1).map(count => (
+                                <button key={count} onClick={() => setImageCount(count)} className={`py-2 rounded-lg text-sm transition-colors ${imageCount === count ? 'bg-gradient-accent text-slate-900' : 'bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)]'}`}>{count}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">Seed</label>
+                        <div className="flex gap-1">
+                            <input
+                                value={supportsSeed ? seed : ''}
+                                onChange={(e) => setSeed(e.target.value.replace(/\D/g, ''))}
+                                placeholder={supportsSeed ? 'Random' : 'Not supported'}
+                                inputMode="numeric"
+                                disabled={!supportsSeed || isLoading}
+                                className="w-full min-w-0 px-3 py-2 text-sm bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] disabled:opacity-50"
+                            />
+                            <button
+                                onClick={() => setSeed(String(Math.floor(Math.random() * MAX_SEED)))}
+                                disabled={!supportsSeed || isLoading}
+                                title="Pick a random seed"
+                                className="px-2 rounded-lg bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)] disabled:opacity-50"
+                            >
+                                {React.cloneElement(ICONS.ARROW_PATH, { className: 'w-4 h-4' })}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+                {!supportsSeed && <p className="-mt-2 text-[11px] text-[var(--text-tertiary)]">Switch to Gemini Flash Image to set a seed and reproduce results.</p>}
+                {mode === 'single' ? (
+                    <PremiumButton onClick={handleGenerate} disabled={isLoading} className="w-full">
+                        {isLoading ? <Loader text="Generating..." /> : imageCount > 1 ? `Generate ${imageCount} Images` : 'Generate Image'}
+                    </PremiumButton>
+                ) : isLoading ? (
+                    <PremiumButton variant="secondary" onClick={() => { cancelBatchRef.current = true; }} className="w-full">Stop after current prompt</PremiumButton>
+                ) : (
+                    <PremiumButton onClick={handleRunBatch} className="w-full">Run Batch</PremiumButton>
+                )}
             </div>
-            <div className="flex-1 min-h-0 bg-[var(--surface-elevated)] rounded-lg flex items-center justify-center p-4">
-                {isLoading && <Loader text="Creating your masterpiece..." />}
-                {error && <p className="text-red-400">{error}</p>}
-                {generatedImage && <img src={generatedImage} alt="Generated image" className="max-w-full max-h-full object-contain rounded-md" />}
-                {!isLoading && !error && !generatedImage && <p className="text-[var(--text-tertiary)] text-center">Your generated image will appear here.</p>}
+            <div className="flex-1 min-h-0 bg-[var(--surface-elevated)] rounded-lg flex flex-col p-4 gap-3">
+                {error && <p className="text-red-400 text-center">{error}</p>}
+                {mode === 'batch' ? (
+                    batchItems.length === 0 ? (
+                        <p className="m-auto text-[var(--text-tertiary)] text-center">Each prompt runs in turn with the settings on the left.</p>
+                    ) : (
+                        <>
+                            <div>
+                                <div className="flex justify-between text-xs text-[var(--text-secondary)] mb-1">
+                                    <span>{isLoading ? 'Running batch...' : 'Batch finished'}</span>
+                                    <span>{finishedCount} of {batchItems.length}</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-[var(--surface-overlay)] overflow-hidden">
+                                    <motion.div className="h-full bg-[var(--accent-teal)]" animate={{ width: `${finishedCount / batchItems.length * 100}%` }} />
+                                </div>
+                            </div>
+                            <div className="flex-1 overflow-y-auto space-y-2">
+                                {batchItems.map((item, index) => (
+                                    <div key={index} className="flex items-center gap-3 p-2 rounded-lg bg-[var(--surface-base)]">
+                                        <span className="w-16 flex-shrink-0 text-xs">
+                                            {item.status === 'running' ? <Loader /> : <span className={item.status === 'error' ? 'text-red-400' : item.status === 'done' ? 'text-[var(--accent-teal)]' : 'text-[var(--text-tertiary)]'}>{{ pending: 'Queued', done: 'Done', error: 'Failed', running: '' }[item.status]}</span>}
+                                        </span>
+                                        <p className="flex-1 min-w-0 text-sm truncate">{item.prompt}</p>
+                                        <div className="flex gap-1">
+                                            {item.assetIds.map(id => assets.find(a => a.id === id)).filter((a): a is MediaAsset => !!a).map(asset => (
+                                                <div key={asset.id} className="w-10 h-10 rounded overflow-hidden"><MediaAssetPreview asset={asset} /></div>
+                                            ))}
+                                        </div>
+                                        {item.status === 'done' && (
+                                            <button onClick={() => { setResultIds(item.assetIds); setPrompt(item.prompt); setOriginalPrompt(undefined); setMode('single'); }} className="text-xs text-[var(--accent-teal)] hover:underline">Compare</button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )
+                ) : isLoading ? (
+                    <Loader text={loadingText} className="m-auto" />
+                ) : results.length > 0 ? (
+                    <div className={`flex-1 min-h-0 grid gap-3 ${results.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} ${results.length > 2 ? 'grid-rows-2' : 'grid-rows-1'}`}>
+                        {results.map(asset => (
+                            <GeneratedImageCard
+                                key={asset.id}
+                                asset={asset}
+                                isBusy={isLoading}
+                                onToggleFavorite={() => onUpdateAsset(asset.id, { isFavorite: !asset.isFavorite })}
+                                onVariations={() => handleVariations(asset)}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    !error && <p className="m-auto text-[var(--text-tertiary)] text-center">Your generated images will appear here.</p>
+                )}
             </div>
         </div>
     );
 };
 
-const ImageEditorStudio = () => {
-    const [prompt, setPrompt] = useState('');
-    const [originalImage, setOriginalImage] = useState<{ file: File, base64: string, preview: string, mimeType: string } | null>(null);
-    const [editedImage, setEditedImage] = useState<string | null>(null);
+const createEditSessionId = () => `edit-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const CompareSlider: React.FC<{ before: Blob | null; after: Blob | null }> = ({ before, after }) => {
+    const beforeUrl = useObjectUrl(before);
+    const afterUrl = useObjectUrl(after);
+    const [position, setPosition] = useState(50);
+    return (
+        <div className="relative w-full h-full select-none">
+            {afterUrl && <img src={afterUrl} alt="After" className="absolute inset-0 w-full h-full object-contain" />}
+            {beforeUrl && <img src={beforeUrl} alt="Before" className="absolute inset-0 w-full h-full object-contain" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }} />}
+            <div className="absolute inset-y-0 w-0.5 bg-white/80 shadow pointer-events-none" style={{ left: `${position}%` }} />
+            <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[11px] text-white pointer-events-none">Before</span>
+            <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-[11px] text-white pointer-events-none">After</span>
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                aria-label="Compare before and after"
+                className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+            />
+        </div>
+    );
+};
+
+const EditStepThumbnail: React.FC<{ image: Blob | null | undefined; label: string; title: string; isCurrent: boolean; isUndone: boolean; onClick: () => void }> = ({ image, label, title, isCurrent, isUndone, onClick }) => {
+    const url = useObjectUrl(image);
+    return (
+        <button
+            onClick={onClick}
+            title={title}
+            className={`relative w-20 h-20 flex-shrink-0 rounded-lg overflow-hidden bg-black/20 border-2 transition-all ${isCurrent ? 'border-[var(--accent-teal)]' : 'border-transparent hover:border-[var(--border-color)]'} ${isUndone ? 'opacity-40' : ''}`}
+        >
+            {url && <img src={url} alt={title} className="w-full h-full object-cover" />}
+            <span className="absolute bottom-0 inset-x-0 py-0.5 bg-black/60 text-[10px] text-white">{label}</span>
+        </button>
+    );
+};
+
+const ImageEditorStudio: React.FC<{ assets: MediaAsset[]; onAssetCreated: OnAssetCreated; draft?: MediaDraft }> = ({ assets, onAssetCreated, draft }) => {
+    const [prompt, setPrompt] = useState(draft?.editSessionId ? '' : draft?.prompt || '');
+    const [sessionId, setSessionId] = useState(() => draft?.editSessionId ?? createEditSessionId());
+    const [uploadedImage, setUploadedImage] = useState<Blob | null>(draft?.editSessionId ? null : draft?.sourceImage || null);
+    // The last step of the branch on show, and the step being viewed on it (null for the original).
+    const [tipId, setTipId] = useState<string | null>(draft?.editSessionId ? draft.resultIds?.[0] ?? null : null);
+    const [currentId, setCurrentId] = useState<string | null>(tipId);
+    const [compareWith, setCompareWith] = useState<'previous' | 'original'>('previous');
     const [isLoading, setIsLoading] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const steps = useMemo(() => getEditSteps(assets, sessionId), [assets, sessionId]);
+    const path = getEditPath(steps, tipId);
+    const currentIndex = path.findIndex(step => step.id === currentId);
+    // Once a session has steps, the upload it started from is kept as the first step's source image.
+    const originalImage = steps.find(step => !getParentId(steps, step))?.sourceImage ?? uploadedImage;
+    const originalImageUrl = useObjectUrl(originalImage);
+    const currentImage = currentIndex >= 0 ? path[currentIndex].file ?? null : originalImage;
+    const beforeImage = compareWith === 'original' || currentIndex <= 0 ? originalImage : path[currentIndex - 1].file ?? null;
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
-            const base64 = await blobToBase64(file);
-            setOriginalImage({
-                file,
-                base64,
-                preview: URL.createObjectURL(file),
-                mimeType: file.type,
-            });
-            setEditedImage(null);
+            setUploadedImage(file);
+            setSessionId(createEditSessionId());
+            setTipId(null);
+            setCurrentId(null);
+            setError(null);
         }
     };
 
+    const handleUndo = () => setCurrentId(currentIndex > 0 ? path[currentIndex - 1].id : null);
+    const handleRedo = () => setCurrentId(path[currentIndex + 1].id);
+
+    const handleSelectSibling = (step: MediaAsset) => {
+        setTipId(getLatestLeafId(steps, step.id));
+        setCurrentId(step.id);
+    };
+
+    // Each edit applies to the image on show, so editing an earlier step starts a new branch from it.
     const handleGenerate = async () => {
-        if (!prompt || !originalImage) {
+        if (!prompt || !currentImage) {
             setError('Please upload an image and provide an editing prompt.');
             return;
         }
         setIsLoading(true);
         setError(null);
-        setEditedImage(null);
 
         try {
             const ai = getAi();
@@ -601,7 +3010,7 @@ const ImageEditorStudio = () => {
                 model: 'gemini-2.5-flash-image',
                 contents: {
                     parts: [
-                        { inlineData: { data: originalImage.base64, mimeType: originalImage.mimeType } },
+                        { inlineData: { data: await blobToBase64(currentImage), mimeType: currentImage.type } },
                         { text: prompt },
                     ],
                 },
@@ -609,13 +3018,21 @@ const ImageEditorStudio = () => {
                     responseModalities: [Modality.IMAGE],
                 },
             });
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    const base64ImageBytes: string = part.inlineData.data;
-                    setEditedImage(`data:${part.inlineData.mimeType};base64,${base64ImageBytes}`);
-                    break;
-                }
-            }
+            const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+            if (!part?.inlineData?.data) throw new Error('No image in response.');
+            const image = base64ToBlob(part.inlineData.data, part.inlineData.mimeType || 'image/png');
+            const id = onAssetCreated({
+                kind: 'edit',
+                prompt,
+                model: 'gemini-2.5-flash-image',
+                file: image,
+                sourceImage: currentImage,
+                editSessionId: sessionId,
+                ...(currentId && { editParentId: currentId }),
+            });
+            setTipId(id);
+            setCurrentId(id);
+            setPrompt('');
         } catch (e) {
             console.error(e);
             setError('Failed to edit image. Please try again.');
@@ -624,6 +3041,42 @@ const ImageEditorStudio = () => {
         }
     };
 
+    // Every step of every branch, numbered in the order they were made, with the images inlined.
+    const handleExportHistory = async () => {
+        if (!originalImage) return;
+        setIsExporting(true);
+        try {
+            const toDataUrl = async (blob: Blob) => `data:${blob.type};base64,${await blobToBase64(blob)}`;
+            const history = {
+                exportedAt: new Date().toISOString(),
+                original: await toDataUrl(originalImage),
+                steps: await Promise.all(steps.map(async (step, i) => {
+                    const parentId = getParentId(steps, step);
+                    return {
+                        step: i + 1,
+                        parentStep: parentId ? steps.findIndex(s => s.id === parentId) + 1 : 0, // 0 is the original
+                        prompt: step.prompt,
+                        createdAt: new Date(step.createdAt).toISOString(),
+                        image: step.file ? await toDataUrl(step.file) : null,
+                    };
+                })),
+            };
+            const url = URL.createObjectURL(new Blob([JSON.stringify(history, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `w3j-edit-history-${Date.now()}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            console.error(e);
+            setError('Could not export the edit history.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const isBranching = currentIndex < path.length - 1;
+
     return (
         <div className="h-full flex flex-col lg:flex-row gap-6">
             <div className="lg:w-1/3 flex flex-col gap-4">
@@ -636,34 +3089,80 @@ const ImageEditorStudio = () => {
                     className="w-full h-32 p-3 bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none"
                     disabled={isLoading || !originalImage}
                 />
+                {isBranching && <p className="-mt-2 text-xs text-[var(--text-tertiary)]">You're viewing an earlier step. A new edit starts a branch from here; the later steps are kept.</p>}
                 <PremiumButton onClick={handleGenerate} disabled={isLoading || !originalImage || !prompt} className="w-full">
-                    {isLoading ? <Loader text="Editing..." /> : 'Apply Edit'}
+                    {isLoading ? <Loader text="Editing..." /> : isBranching ? 'Apply as New Branch' : 'Apply Edit'}
                 </PremiumButton>
-            </div>
-            <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="bg-[var(--surface-elevated)] rounded-lg flex flex-col items-center justify-center p-4">
-                     <h4 className="text-sm font-medium text-center text-[var(--text-secondary)] mb-2">Original</h4>
-                    {originalImage ? <img src={originalImage.preview} alt="Original" className="max-w-full max-h-full object-contain rounded-md" /> : <p className="text-[var(--text-tertiary)] text-center">Upload an image to begin.</p>}
+                <div className="flex gap-2">
+                    <button onClick={handleUndo} disabled={isLoading || currentIndex < 0} title="Undo" className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)] disabled:opacity-50">
+                        {React.cloneElement(ICONS.ARROW_UTURN_LEFT, { className: 'w-4 h-4' })} Undo
+                    </button>
+                    <button onClick={handleRedo} disabled={isLoading || !isBranching} title="Redo" className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)] disabled:opacity-50">
+                        {React.cloneElement(ICONS.ARROW_UTURN_RIGHT, { className: 'w-4 h-4' })} Redo
+                    </button>
+                    <button onClick={handleExportHistory} disabled={isExporting || steps.length === 0} title="Export every step with its prompt" className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm bg-[var(--surface-elevated)] hover:bg-[var(--surface-overlay)] disabled:opacity-50">
+                        {isExporting ? <Loader /> : React.cloneElement(ICONS.DOWNLOAD, { className: 'w-4 h-4' })} Export
+                    </button>
                 </div>
-                 <div className="bg-[var(--surface-elevated)] rounded-lg flex flex-col items-center justify-center p-4">
-                    <h4 className="text-sm font-medium text-center text-[var(--text-secondary)] mb-2">Edited</h4>
-                    {isLoading && <Loader text="Applying your edits..." />}
-                    {error && <p className="text-red-400">{error}</p>}
-                    {editedImage && <img src={editedImage} alt="Edited" className="max-w-full max-h-full object-contain rounded-md" />}
-                    {!isLoading && !error && !editedImage && <p className="text-[var(--text-tertiary)] text-center">Your edited image will appear here.</p>}
+            </div>
+            <div className="flex-1 min-h-0 flex flex-col gap-3">
+                <div className="flex-1 min-h-0 bg-[var(--surface-elevated)] rounded-lg flex flex-col p-4 gap-2">
+                    {currentIndex >= 0 && (
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                            <p className="min-w-0 truncate text-[var(--text-secondary)]" title={path[currentIndex].prompt}>{path[currentIndex].prompt}</p>
+                            <div className="flex flex-shrink-0 p-0.5 rounded-lg bg-[var(--surface-base)]">
+                                {(['previous', 'original'] as const).map(option => (
+                                    <button key={option} onClick={() => setCompareWith(option)} className={`px-2 py-0.5 rounded-md transition-colors ${compareWith === option ? 'bg-gradient-accent text-slate-900' : 'text-[var(--text-secondary)]'}`}>
+                                        {option === 'previous' ? 'vs previous' : 'vs original'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    <div className="flex-1 min-h-0 flex items-center justify-center">
+                        {isLoading ? <Loader text="Applying your edits..." />
+                            : !originalImage ? <p className="text-[var(--text-tertiary)] text-center">Upload an image to begin.</p>
+                            : currentIndex >= 0 ? <CompareSlider before={beforeImage} after={currentImage} />
+                            : originalImageUrl && <img src={originalImageUrl} alt="Original" className="max-w-full max-h-full object-contain rounded-md" />}
+                    </div>
+                    {error && <p className="text-red-400 text-center text-sm">{error}</p>}
                 </div>
+                {originalImage && (
+                    <div className="flex gap-2 overflow-x-auto pb-1 text-center">
+                        <EditStepThumbnail image={originalImage} label="Original" title="Original" isCurrent={currentIndex < 0} isUndone={false} onClick={() => setCurrentId(null)} />
+                        {path.map((step, i) => {
+                            const siblings = getEditSiblings(steps, step);
+                            const siblingIndex = siblings.findIndex(s => s.id === step.id);
+                            return (
+                                <div key={step.id} className="flex flex-col items-center gap-0.5">
+                                    <EditStepThumbnail image={step.file} label={`Step ${i + 1}`} title={step.prompt} isCurrent={i === currentIndex} isUndone={i > currentIndex} onClick={() => setCurrentId(step.id)} />
+                                    {siblings.length > 1 && (
+                                        <div className="flex items-center text-[10px] text-[var(--text-tertiary)]">
+                                            <button onClick={() => handleSelectSibling(siblings[siblingIndex - 1])} disabled={siblingIndex === 0} className="p-0.5 disabled:opacity-30" title="Previous branch">{React.cloneElement(ICONS.CHEVRON_LEFT, { className: 'w-3 h-3' })}</button>
+                                            <span className="tabular-nums">{siblingIndex + 1}/{siblings.length}</span>
+                                            <button onClick={() => handleSelectSibling(siblings[siblingIndex + 1])} disabled={siblingIndex === siblings.length - 1} className="p-0.5 disabled:opacity-30" title="Next branch">{React.cloneElement(ICONS.CHEVRON_RIGHT, { className: 'w-3 h-3' })}</button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
             </div>
         </div>
     );
 };
 
-const VideoGenerationStudio = () => {
-    const [prompt, setPrompt] = useState('');
-    const [startImage, setStartImage] = useState<{ file: File, base64: string, preview: string, mimeType: string } | null>(null);
-    const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
+const VideoGenerationStudio: React.FC<{ onAssetCreated: OnAssetCreated; draft?: MediaDraft }> = ({ onAssetCreated, draft }) => {
+    const [prompt, setPrompt] = useState(draft?.prompt || '');
+    const [originalPrompt, setOriginalPrompt] = useState(draft?.originalPrompt);
+    const [startImage, setStartImage] = useState<Blob | null>(draft?.sourceImage || null);
+    const startImageUrl = useObjectUrl(startImage);
+    const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>(draft?.aspectRatio === '9:16' ? '9:16' : '16:9');
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('');
-    const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+    const [generatedVideo, setGeneratedVideo] = useState<Blob | null>(draft?.result || null);
+    const generatedVideoUrl = useObjectUrl(generatedVideo);
     const [error, setError] = useState<string | null>(null);
     const [isKeySelected, setIsKeySelected] = useState(false);
 
@@ -684,17 +3183,9 @@ const VideoGenerationStudio = () => {
         }
     };
     
-    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
-        if (file) {
-            const base64 = await blobToBase64(file);
-            setStartImage({
-                file,
-                base64,
-                preview: URL.createObjectURL(file),
-                mimeType: file.type,
-            });
-        }
+        if (file) setStartImage(file);
     };
 
     const handleGenerate = async () => {
@@ -704,7 +3195,7 @@ const VideoGenerationStudio = () => {
         }
         setIsLoading(true);
         setError(null);
-        setGeneratedVideoUrl(null);
+        setGeneratedVideo(null);
         setLoadingMessage('Initializing video generation...');
 
         try {
@@ -712,7 +3203,7 @@ const VideoGenerationStudio = () => {
             let operation = await ai.models.generateVideos({
                 model: 'veo-3.1-fast-generate-preview',
                 prompt: prompt,
-                ...(startImage && { image: { imageBytes: startImage.base64, mimeType: startImage.mimeType } }),
+                ...(startImage && { image: { imageBytes: await blobToBase64(startImage), mimeType: startImage.type } }),
                 config: {
                     numberOfVideos: 1,
                     resolution: '720p',
@@ -735,7 +3226,16 @@ const VideoGenerationStudio = () => {
             if (downloadLink) {
                  const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
                  const videoBlob = await response.blob();
-                 setGeneratedVideoUrl(URL.createObjectURL(videoBlob));
+                 setGeneratedVideo(videoBlob);
+                 onAssetCreated({
+                     kind: 'video',
+                     prompt,
+                     model: 'veo-3.1-fast-generate-preview',
+                     aspectRatio,
+                     file: videoBlob,
+                     ...(originalPrompt !== undefined && { originalPrompt }),
+                     ...(startImage && { sourceImage: startImage }),
+                 });
             } else {
                 throw new Error("Video URI not found in response.");
             }
@@ -768,10 +3268,17 @@ const VideoGenerationStudio = () => {
                 <h3 className="text-lg font-semibold text-[var(--text-primary)]">Video Generation</h3>
                  <textarea
                     value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
+                    onChange={(e) => { setPrompt(e.target.value); setOriginalPrompt(undefined); }}
                     placeholder="Describe the video you want to create..."
                     className="w-full h-24 p-3 bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none"
                     disabled={isLoading}
+                />
+                <PromptEnhancer
+                    prompt={prompt}
+                    target="video"
+                    originalPrompt={originalPrompt}
+                    disabled={isLoading}
+                    onApply={(next, original) => { setPrompt(next); setOriginalPrompt(original); }}
                 />
                  <div>
                     <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">Start Image (Optional)</label>
@@ -795,10 +3302,10 @@ const VideoGenerationStudio = () => {
             <div className="flex-1 min-h-0 bg-[var(--surface-elevated)] rounded-lg flex items-center justify-center p-4">
                 {isLoading && <div className="text-center"><Loader /><p className="mt-2 text-[var(--text-secondary)]">{loadingMessage}</p></div>}
                 {error && <p className="text-red-400 text-center">{error}</p>}
-                {generatedVideoUrl && <video src={generatedVideoUrl} controls autoPlay loop className="max-w-full max-h-full object-contain rounded-md" />}
+                {generatedVideoUrl && !isLoading && <video src={generatedVideoUrl} controls autoPlay loop className="max-w-full max-h-full object-contain rounded-md" />}
                 {!isLoading && !error && !generatedVideoUrl && 
                     <div className="text-center text-[var(--text-tertiary)]">
-                        {startImage ? <img src={startImage.preview} alt="Start image preview" className="max-w-full max-h-48 object-contain rounded-md mx-auto mb-4" /> : null}
+                        {startImageUrl ? <img src={startImageUrl} alt="Start image preview" className="max-w-full max-h-48 object-contain rounded-md mx-auto mb-4" /> : null}
                         <p>Your generated video will appear here.</p>
                     </div>
                 }
@@ -807,10 +3314,10 @@ const VideoGenerationStudio = () => {
     );
 };
 
-const AudioTranscriberStudio = () => {
+const AudioTranscriberStudio: React.FC<{ onAssetCreated: OnAssetCreated; draft?: MediaDraft }> = ({ onAssetCreated, draft }) => {
     const [isRecording, setIsRecording] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
-    const [transcription, setTranscription] = useState('');
+    const [transcription, setTranscription] = useState(draft?.text || '');
     const [error, setError] = useState<string | null>(null);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
@@ -846,15 +3353,9 @@ const AudioTranscriberStudio = () => {
         const audioBase64 = await blobToBase64(audioBlob);
 
         try {
-            const ai = getAi();
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: [
-                    { parts: [ { text: "Transcribe the following audio precisely." } ] },
-                    { parts: [ { inlineData: { mimeType: 'audio/webm', data: audioBase64 } } ] }
-                ]
-            });
-            setTranscription(response.text);
+            const text = await transcribeAudio(audioBase64, 'audio/webm');
+            setTranscription(text);
+            onAssetCreated({ kind: 'transcript', prompt: '', model: TRANSCRIPTION_MODEL, text, file: audioBlob });
         } catch (e) {
             console.error(e);
             setError("Failed to transcribe audio. Please try again.");
@@ -886,22 +3387,282 @@ const AudioTranscriberStudio = () => {
 };
 
 
-const MediaSuite: React.FC = () => {
-    const [activeStudio, setActiveStudio] = useState<'generate' | 'edit' | 'video' | 'transcribe'>('generate');
+type MediaFilter = 'all' | 'favorites' | MediaAsset['kind'];
+
+const MEDIA_FILTERS: { id: MediaFilter; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'favorites', label: 'Favorites' },
+    { id: 'image', label: 'Images' },
+    { id: 'edit', label: 'Edits' },
+    { id: 'video', label: 'Videos' },
+    { id: 'transcript', label: 'Transcripts' },
+];
+
+const MEDIA_KIND_LABELS: Record<MediaAsset['kind'], string> = { image: 'Image', edit: 'Edit', video: 'Video', transcript: 'Transcript' };
+
+const DOWNLOAD_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif',
+    'video/mp4': 'mp4', 'video/webm': 'webm',
+    'audio/webm': 'webm', 'audio/ogg': 'ogg', 'audio/mp4': 'm4a', 'audio/wav': 'wav',
+    'text/plain': 'txt',
+};
+
+// Transcripts download as text unless another blob (e.g. the recording) is passed.
+const downloadAsset = (asset: MediaAsset, file?: Blob) => {
+    const blob = file ?? (asset.kind === 'transcript' ? new Blob([asset.text || ''], { type: 'text/plain' }) : asset.file);
+    if (!blob) return;
+    const extension = DOWNLOAD_EXTENSIONS[blob.type.split(';')[0]] || 'bin'; // Recorder types can carry codecs
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `w3j-${asset.kind}-${asset.createdAt}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Assets saved before the library kept files only have their prompt and settings.
+const MediaAssetPreview: React.FC<{ asset: MediaAsset; isLarge?: boolean }> = ({ asset, isLarge = false }) => {
+    const url = useObjectUrl(asset.file);
+    const mediaClass = isLarge ? 'max-w-full max-h-[50vh] object-contain rounded-lg mx-auto' : 'w-full h-full object-cover';
+    if (asset.kind === 'transcript') {
+        return (
+            <div className={isLarge ? 'space-y-3' : 'w-full h-full p-3 overflow-hidden'}>
+                {isLarge && url && <audio src={url} controls className="w-full" />}
+                <p className={`whitespace-pre-wrap text-[var(--text-secondary)] ${isLarge ? 'text-sm max-h-[40vh] overflow-y-auto' : 'text-xs line-clamp-6'}`}>{asset.text}</p>
+            </div>
+        );
+    }
+    if (!url) {
+        return (
+            <div className="w-full h-full min-h-24 flex flex-col items-center justify-center gap-1 text-[var(--text-tertiary)]">
+                {React.cloneElement(asset.kind === 'video' ? ICONS.VIDEO : ICONS.IMAGE_GEN, { className: 'w-6 h-6' })}
+                <span className="text-[11px]">Preview not saved</span>
+            </div>
+        );
+    }
+    return asset.kind === 'video'
+        ? <video src={url} controls={isLarge} muted={!isLarge} loop playsInline className={mediaClass} />
+        : <img src={url} alt={asset.prompt} className={mediaClass} />;
+};
+
+const MediaLibrary: React.FC<{
+    assets: MediaAsset[];
+    selectedAssetId: string | null;
+    onSelectAsset: (id: string | null) => void;
+    onUpdateAsset: (id: string, changes: Partial<MediaAsset>) => void;
+    onDeleteAsset: (id: string) => void;
+    onReusePrompt: (asset: MediaAsset) => void;
+    onSendToEditor: (asset: MediaAsset) => void;
+}> = ({ assets, selectedAssetId, onSelectAsset, onUpdateAsset, onDeleteAsset, onReusePrompt, onSendToEditor }) => {
+    const [filter, setFilter] = useState<MediaFilter>('all');
+    const [query, setQuery] = useState('');
+    const selectedAsset = assets.find(a => a.id === selectedAssetId) || null;
+    const sourceImageUrl = useObjectUrl(selectedAsset?.sourceImage);
+
+    const terms = getSearchTerms(query);
+    const visibleAssets = assets.filter(asset =>
+        (filter === 'all' || (filter === 'favorites' ? asset.isFavorite : asset.kind === filter)) &&
+        (terms.length === 0 || matchesAllTerms(`${asset.prompt} ${asset.text || ''}`, terms)));
+
+    const handleDelete = (asset: MediaAsset) => {
+        if (!window.confirm(`Delete this ${MEDIA_KIND_LABELS[asset.kind].toLowerCase()}? This can't be undone.`)) return;
+        onDeleteAsset(asset.id);
+        onSelectAsset(null);
+    };
+
+    const canSendToEditor = (asset: MediaAsset) => (asset.kind === 'image' || asset.kind === 'edit') && !!asset.file;
+
+    return (
+        <div className="h-full flex flex-col gap-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <h3 className="text-lg font-semibold text-[var(--text-primary)] mr-auto">Library</h3>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search prompts..."
+                    className="w-48 px-3 py-1.5 text-sm bg-[var(--surface-elevated)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                />
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {MEDIA_FILTERS.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setFilter(option.id)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${filter === option.id ? 'bg-gradient-accent text-slate-900' : 'bg-[var(--surface-elevated)] text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)]'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            {visibleAssets.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-center text-[var(--text-tertiary)]">
+                    <p>{assets.length === 0 ? 'Images, videos and transcripts you create will be collected here.' : 'Nothing matches these filters.'}</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3">
+                    {visibleAssets.map(asset => (
+                        <motion.div key={asset.id} layout className="group relative rounded-lg overflow-hidden bg-[var(--surface-elevated)] border border-[var(--border-color)]">
+                            <button onClick={() => onSelectAsset(asset.id)} className="block w-full text-left">
+                                <div className="aspect-square bg-black/20">
+                                    <MediaAssetPreview asset={asset} />
+                                </div>
+                                <div className="p-2">
+                                    <p className="text-xs truncate">{asset.prompt || asset.text || MEDIA_KIND_LABELS[asset.kind]}</p>
+                                    <p className="text-[11px] text-[var(--text-tertiary)]">{MEDIA_KIND_LABELS[asset.kind]} • {new Date(asset.createdAt).toLocaleDateString()}</p>
+                                </div>
+                            </button>
+                            <button
+                                onClick={() => onUpdateAsset(asset.id, { isFavorite: !asset.isFavorite })}
+                                title={asset.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                                className={`absolute top-2 right-2 p-1.5 rounded-full bg-black/50 transition-opacity ${asset.isFavorite ? 'text-[var(--accent-gold)]' : 'text-white opacity-0 group-hover:opacity-100'}`}
+                            >
+                                {React.cloneElement(ICONS.STAR, { className: 'w-4 h-4', fill: asset.isFavorite ? 'currentColor' : 'none' })}
+                            </button>
+                        </motion.div>
+                    ))}
+                </div>
+            )}
+            <AnimatePresence>
+                {selectedAsset && (
+                    <motion.div
+                        initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                        onClick={() => onSelectAsset(null)}
+                        className="fixed inset-0 bg-black/60 z-30 flex items-center justify-center p-4"
+                    >
+                        <motion.div
+                            initial={{ scale: 0.95, y: 10 }} animate={{ scale: 1, y: 0 }} exit={{ scale: 0.95, y: 10 }}
+                            onClick={(e) => e.stopPropagation()}
+                            className="w-full max-w-3xl max-h-[90vh] overflow-y-auto glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium p-5 space-y-4"
+                        >
+                            <div className="flex items-center justify-between">
+                                <h3 className="font-semibold">{MEDIA_KIND_LABELS[selectedAsset.kind]}</h3>
+                                <button onClick={() => onSelectAsset(null)} className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">{ICONS.X_MARK}</button>
+                            </div>
+                            <MediaAssetPreview asset={selectedAsset} isLarge />
+                            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                                {selectedAsset.prompt && <><dt className="text-[var(--text-tertiary)]">Prompt</dt><dd className="whitespace-pre-wrap">{selectedAsset.prompt}</dd></>}
+                                <dt className="text-[var(--text-tertiary)]">Model</dt><dd>{selectedAsset.model}</dd>
+                                {selectedAsset.originalPrompt !== undefined && <><dt className="text-[var(--text-tertiary)]">Enhanced from</dt><dd>{selectedAsset.originalPrompt}</dd></>}
+                                {selectedAsset.negativePrompt && <><dt className="text-[var(--text-tertiary)]">Negative prompt</dt><dd>{selectedAsset.negativePrompt}</dd></>}
+                                {selectedAsset.aspectRatio && <><dt className="text-[var(--text-tertiary)]">Aspect ratio</dt><dd>{selectedAsset.aspectRatio}</dd></>}
+                                {selectedAsset.seed !== undefined && <><dt className="text-[var(--text-tertiary)]">Seed</dt><dd className="tabular-nums">{selectedAsset.seed}</dd></>}
+                                <dt className="text-[var(--text-tertiary)]">Created</dt><dd>{new Date(selectedAsset.createdAt).toLocaleString()}</dd>
+                                {sourceImageUrl && <><dt className="text-[var(--text-tertiary)]">Source</dt><dd><img src={sourceImageUrl} alt="Source image" className="max-h-24 rounded-md" /></dd></>}
+                            </dl>
+                            <div className="flex flex-wrap gap-2 pt-2 border-t border-[var(--border-color)]">
+                                <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm gap-2" onClick={() => onUpdateAsset(selectedAsset.id, { isFavorite: !selectedAsset.isFavorite })}>
+                                    {React.cloneElement(ICONS.STAR, { className: 'w-4 h-4', fill: selectedAsset.isFavorite ? 'currentColor' : 'none' })}
+                                    {selectedAsset.isFavorite ? 'Favorited' : 'Favorite'}
+                                </PremiumButton>
+                                {(selectedAsset.file || selectedAsset.text) && (
+                                    <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm gap-2" onClick={() => downloadAsset(selectedAsset)}>
+                                        {React.cloneElement(ICONS.DOWNLOAD, { className: 'w-4 h-4' })} Download
+                                    </PremiumButton>
+                                )}
+                                {selectedAsset.kind === 'transcript' && selectedAsset.file && (
+                                    <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm gap-2" onClick={() => downloadAsset(selectedAsset, selectedAsset.file)}>
+                                        {React.cloneElement(ICONS.DOWNLOAD, { className: 'w-4 h-4' })} Recording
+                                    </PremiumButton>
+                                )}
+                                {selectedAsset.prompt && (
+                                    <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm gap-2" onClick={() => onReusePrompt(selectedAsset)}>
+                                        {React.cloneElement(ICONS.ARROW_PATH, { className: 'w-4 h-4' })} Reuse prompt
+                                    </PremiumButton>
+                                )}
+                                {canSendToEditor(selectedAsset) && (
+                                    <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm gap-2" onClick={() => onSendToEditor(selectedAsset)}>
+                                        {React.cloneElement(ICONS.PENCIL, { className: 'w-4 h-4' })} Send to editor
+                                    </PremiumButton>
+                                )}
+                                <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm gap-2 ml-auto hover:!text-red-400" onClick={() => handleDelete(selectedAsset)}>
+                                    {React.cloneElement(ICONS.TRASH, { className: 'w-4 h-4' })} Delete
+                                </PremiumButton>
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+const MediaSuite: React.FC<{
+    assets: MediaAsset[];
+    onAssetCreated: OnAssetCreated;
+    onUpdateAsset: (id: string, changes: Partial<MediaAsset>) => void;
+    onDeleteAsset: (id: string) => void;
+    focusAssetId: string | null;
+    onFocusHandled: () => void;
+}> = ({ assets, onAssetCreated, onUpdateAsset, onDeleteAsset, focusAssetId, onFocusHandled }) => {
+    const [activeStudio, setActiveStudio] = useState<MediaStudio | 'library'>('generate');
+    const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
+    // Set when the library sends a prompt or image to a studio; `id` remounts the studio with it.
+    const [draft, setDraft] = useState<{ studio: MediaStudio; value: MediaDraft; id: number } | null>(null);
+
+    useEffect(() => {
+        if (!focusAssetId) return;
+        setActiveStudio('library');
+        setSelectedAssetId(focusAssetId);
+        onFocusHandled();
+    }, [focusAssetId, onFocusHandled]);
+
+    // The settings an asset was made with, so the same prompt can be run again.
+    const getReuseDraft = (asset: MediaAsset): MediaDraft => ({
+        prompt: asset.prompt,
+        originalPrompt: asset.originalPrompt,
+        negativePrompt: asset.negativePrompt,
+        model: asset.model,
+        aspectRatio: asset.aspectRatio,
+        seed: asset.seed,
+        sourceImage: asset.sourceImage,
+    });
+
+    const openStudio = (studio: MediaStudio, value: MediaDraft) => {
+        setDraft({ studio, value, id: Date.now() });
+        setSelectedAssetId(null);
+        setActiveStudio(studio);
+    };
+
+    // Without a draft, a studio reopens with its latest result so switching tabs doesn't lose it.
+    const getDraft = (studio: MediaStudio): MediaDraft | undefined => {
+        if (draft?.studio === studio) return draft.value;
+        const latest = assets.find(a => STUDIO_FOR_ASSET_KIND[a.kind] === studio);
+        if (!latest) return undefined;
+        const resultIds = latest.batchId ? assets.filter(a => a.batchId === latest.batchId).map(a => a.id).reverse() : [latest.id];
+        return {
+            ...getReuseDraft(latest),
+            result: latest.file,
+            resultIds,
+            text: latest.text,
+            ...(latest.kind === 'edit' && { editSessionId: getEditSessionId(latest) }),
+        };
+    };
 
     const renderStudio = () => {
         switch (activeStudio) {
-            case 'generate': return <ImageGenerationStudio />;
-            case 'edit': return <ImageEditorStudio />;
-            case 'video': return <VideoGenerationStudio />;
-            case 'transcribe': return <AudioTranscriberStudio />;
-            default: return <ImageGenerationStudio />;
+            case 'generate': return <ImageGenerationStudio assets={assets} onAssetCreated={onAssetCreated} onUpdateAsset={onUpdateAsset} draft={getDraft('generate')} />;
+            case 'edit': return <ImageEditorStudio assets={assets} onAssetCreated={onAssetCreated} draft={getDraft('edit')} />;
+            case 'video': return <VideoGenerationStudio onAssetCreated={onAssetCreated} draft={getDraft('video')} />;
+            case 'transcribe': return <AudioTranscriberStudio onAssetCreated={onAssetCreated} draft={getDraft('transcribe')} />;
+            case 'library': return (
+                <MediaLibrary
+                    assets={assets}
+                    selectedAssetId={selectedAssetId}
+                    onSelectAsset={setSelectedAssetId}
+                    onUpdateAsset={onUpdateAsset}
+                    onDeleteAsset={onDeleteAsset}
+                    onReusePrompt={(asset) => openStudio(STUDIO_FOR_ASSET_KIND[asset.kind], getReuseDraft(asset))}
+                    onSendToEditor={(asset) => openStudio('edit', { sourceImage: asset.file })}
+                />
+            );
+            default: return <ImageGenerationStudio assets={assets} onAssetCreated={onAssetCreated} onUpdateAsset={onUpdateAsset} />;
         }
     };
 
     const TabButton: React.FC<{ label: string; target: typeof activeStudio; icon: React.ReactNode }> = ({ label, target, icon }) => (
         <button
-            onClick={() => setActiveStudio(target)}
+            onClick={() => { setDraft(null); setActiveStudio(target); }}
             className={`flex items-center gap-3 p-3 rounded-lg w-full text-left transition-colors text-sm font-medium ${activeStudio === target ? 'bg-gradient-accent text-slate-900' : 'text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)] hover:text-[var(--text-primary)]'}`}
         >
             {React.cloneElement(icon as React.ReactElement, { className: 'w-5 h-5 flex-shrink-0' })}
@@ -918,11 +3679,12 @@ const MediaSuite: React.FC = () => {
                     <TabButton label="Edit Image" target="edit" icon={ICONS.PENCIL} />
                     <TabButton label="Generate Video" target="video" icon={ICONS.VIDEO} />
                     <TabButton label="Transcribe Audio" target="transcribe" icon={ICONS.MIC} />
+                    <TabButton label="Library" target="library" icon={ICONS.PHOTO_STACK} />
                 </nav>
                 <div className="flex-1 glass-surface rounded-xl p-4 lg:p-6 min-h-0 overflow-y-auto">
                     <AnimatePresence mode="wait">
                         <motion.div
-                            key={activeStudio}
+                            key={`${activeStudio}-${draft?.id ?? 0}`}
                             initial={{ opacity: 0, y: 10 }}
                             animate={{ opacity: 1, y: 0 }}
                             exit={{ opacity: 0, y: -10 }}
@@ -938,25 +3700,686 @@ const MediaSuite: React.FC = () => {
     );
 };
 
-// --- Scheduler (re-skinned) ---
-const Scheduler: React.FC = () => {
-     // Scheduler logic remains the same, but components use new styling
+// --- Scheduler Components ---
+type SchedulerView = 'month' | 'week' | 'agenda';
+
+// All-day items only become overdue once their day is over.
+const isOverdue = (item: ScheduledItem) => {
+    if (item.isComplete) return false;
+    const due = item.isAllDay ? addDays(startOfDay(new Date(item.dateTime)), 1) : new Date(item.dateTime);
+    return due.getTime() < Date.now();
+};
+
+const sortByDateTime = (items: ScheduledItem[]) =>
+    [...items].sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+
+const formatItemTime = (item: ScheduledItem) =>
+    item.isAllDay ? 'All day' : new Date(item.dateTime).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const ScheduledItemEditor: React.FC<{
+    item: ScheduledItem | null;
+    isNew: boolean;
+    onSave: (item: ScheduledItem) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}> = ({ item, isNew, onSave, onDelete, onClose }) => {
+    const [title, setTitle] = useState('');
+    const [notes, setNotes] = useState('');
+    const [dateTime, setDateTime] = useState('');
+    const [isAllDay, setIsAllDay] = useState(false);
+    const [reminders, setReminders] = useState<number[]>([]);
+    const notificationsBlocked = 'Notification' in window && Notification.permission === 'denied';
+
+    useEffect(() => {
+        if (!item) return;
+        setTitle(item.title);
+        setNotes(item.notes);
+        setDateTime(toDateTimeLocalValue(new Date(item.dateTime)));
+        setIsAllDay(!!item.isAllDay);
+        setReminders(item.reminders || []);
+    }, [item]);
+
+    const toggleReminder = (minutes: number) => {
+        setReminders(prev => prev.includes(minutes) ? prev.filter(m => m !== minutes) : [...prev, minutes].sort((a, b) => a - b));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!item || !title.trim() || !dateTime) return;
+        const date = isAllDay ? startOfDay(new Date(dateTime)) : new Date(dateTime);
+        if (reminders.length > 0 && 'Notification' in window && Notification.permission === 'default') {
+            Notification.requestPermission();
+        }
+        // Moving the item re-arms its reminders.
+        const isRescheduled = date.toISOString() !== item.dateTime;
+        onSave({
+            ...item,
+            title: title.trim(),
+            notes,
+            dateTime: date.toISOString(),
+            isAllDay: isAllDay || undefined,
+            reminders,
+            firedReminders: isRescheduled ? [] : item.firedReminders?.filter(m => reminders.includes(m)),
+            snoozedUntil: isRescheduled ? undefined : item.snoozedUntil,
+        });
+    };
+
+    return (
+        <AnimatePresence>
+            {item && (
+                <motion.div
+                    initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="fixed inset-0 bg-black/60 z-30 flex items-center justify-center p-4"
+                >
+                    <motion.form
+                        initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        onSubmit={handleSubmit}
+                        className="w-full max-w-md glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium p-5 space-y-4"
+                    >
+                        <div className="flex items-center justify-between pb-4 border-b border-[var(--border-color)]">
+                            <h3 className="font-semibold">{isNew ? 'New Item' : 'Edit Item'}</h3>
+                            <PremiumButton type="button" onClick={onClose} variant="ghost" size="icon">{ICONS.X_MARK}</PremiumButton>
+                        </div>
+                        <input
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            placeholder="Title"
+                            autoFocus
+                            className="w-full p-3 bg-[var(--surface-base)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                        />
+                        <input
+                            type="datetime-local"
+                            value={dateTime}
+                            onChange={(e) => setDateTime(e.target.value)}
+                            className="w-full p-3 bg-[var(--surface-base)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] [color-scheme:dark]"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                            <input type="checkbox" checked={isAllDay} onChange={(e) => setIsAllDay(e.target.checked)} className="accent-[var(--accent-teal)]" />
+                            All day
+                        </label>
+                        <div>
+                            <p className="text-sm text-[var(--text-secondary)] mb-2">Reminders</p>
+                            <div className="flex flex-wrap gap-2">
+                                {REMINDER_OPTIONS.map(option => (
+                                    <button
+                                        key={option.minutes}
+                                        type="button"
+                                        onClick={() => toggleReminder(option.minutes)}
+                                        className={`px-3 py-1 rounded-full text-xs transition-colors ${reminders.includes(option.minutes) ? 'bg-gradient-accent text-slate-900' : 'bg-[var(--surface-base)] text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)]'}`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {notificationsBlocked && reminders.length > 0 && (
+                                <p className="text-xs text-[var(--text-tertiary)] mt-2">Notifications are blocked in this browser, so reminders will appear inside the app.</p>
+                            )}
+                        </div>
+                        <textarea
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            placeholder="Notes"
+                            className="w-full h-24 p-3 bg-[var(--surface-base)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)] resize-none"
+                        />
+                        <div className="flex items-center justify-between">
+                            {!isNew ? (
+                                <PremiumButton type="button" variant="ghost" className="!px-3 !py-2 text-red-400" onClick={() => onDelete(item.id)}>
+                                    {ICONS.TRASH}<span className="ml-2 text-sm">Delete</span>
+                                </PremiumButton>
+                            ) : <span />}
+                            <PremiumButton type="submit" disabled={!title.trim() || !dateTime} className="!px-5 !py-2">Save</PremiumButton>
+                        </div>
+                    </motion.form>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+const ScheduledItemRow: React.FC<{
+    item: ScheduledItem;
+    onToggleComplete: (id: string) => void;
+    onEdit: (item: ScheduledItem) => void;
+    compact?: boolean;
+}> = ({ item, onToggleComplete, onEdit, compact = false }) => {
+    const overdue = isOverdue(item);
+    return (
+        <div className={`flex items-start gap-2 rounded-lg ${compact ? 'p-1.5' : 'p-3'} ${overdue ? 'bg-red-500/10 border border-red-400/30' : 'bg-[var(--surface-base)] border border-transparent'}`}>
+            <button
+                onClick={() => onToggleComplete(item.id)}
+                title={item.isComplete ? 'Mark as not done' : 'Mark as done'}
+                className={`flex-shrink-0 ${item.isComplete ? 'text-[var(--accent-teal)]' : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'}`}
+            >
+                {React.cloneElement(item.isComplete ? ICONS.CHECK_CIRCLE : ICONS.CIRCLE, { className: compact ? 'w-4 h-4' : 'w-5 h-5' })}
+            </button>
+            <button onClick={() => onEdit(item)} className="flex-1 min-w-0 text-left">
+                <p className={`truncate ${compact ? 'text-xs' : 'text-sm font-medium'} ${item.isComplete ? 'line-through text-[var(--text-tertiary)]' : ''}`}>{item.title}</p>
+                <p className={`flex items-center gap-1 text-xs ${overdue ? 'text-red-400' : 'text-[var(--text-tertiary)]'}`}>
+                    {ICONS.CLOCK}{formatItemTime(item)}{overdue && ' • Overdue'}
+                </p>
+                {!compact && item.notes && <p className="text-xs text-[var(--text-secondary)] mt-1 line-clamp-2">{item.notes}</p>}
+            </button>
+        </div>
+    );
+};
+
+const Scheduler: React.FC<{
+    items: ScheduledItem[];
+    setItems: React.Dispatch<React.SetStateAction<ScheduledItem[]>>;
+    focusItemId: string | null;
+    onFocusHandled: () => void;
+}> = ({ items, setItems, focusItemId, onFocusHandled }) => {
+    const [calendarView, setCalendarView] = useState<SchedulerView>('month');
+    const [cursorDate, setCursorDate] = useState(() => startOfDay(new Date()));
+    const [editingItem, setEditingItem] = useState<ScheduledItem | null>(null);
+    const [quickAddText, setQuickAddText] = useState('');
+    const [clarifications, setClarifications] = useState<ScheduleClarification[]>([]);
+    const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+    const [clarificationAnswer, setClarificationAnswer] = useState('');
+    const [isParsing, setIsParsing] = useState(false);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const today = startOfDay(new Date());
+
+    useEffect(() => {
+        if (!focusItemId) return;
+        const item = items.find(i => i.id === focusItemId);
+        if (item) {
+            setCursorDate(startOfDay(new Date(item.dateTime)));
+            setEditingItem(item);
+        }
+        onFocusHandled();
+    }, [focusItemId, items, onFocusHandled]);
+
+    const itemsOnDay = (day: Date) => sortByDateTime(items.filter(i => isSameDay(new Date(i.dateTime), day)));
+
+    const handleNewItem = (day?: Date) => {
+        const dateTime = day ? new Date(day) : new Date();
+        if (day) {
+            dateTime.setHours(9, 0, 0, 0);
+        } else {
+            dateTime.setHours(dateTime.getHours() + 1, 0, 0, 0);
+        }
+        setEditingItem({ id: `item-${Date.now()}`, title: '', notes: '', dateTime: dateTime.toISOString(), isComplete: false, createdAt: Date.now(), reminders: [10] });
+    };
+
+    const resetQuickAdd = () => {
+        setQuickAddText('');
+        setClarifications([]);
+        setPendingQuestion(null);
+        setClarificationAnswer('');
+        setParseError(null);
+    };
+
+    // Parses the quick-add text into a draft that opens in the editor, so nothing is saved until confirmed.
+    const handleQuickAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!quickAddText.trim() || isParsing) return;
+
+        const history = pendingQuestion && clarificationAnswer.trim()
+            ? [...clarifications, { question: pendingQuestion, answer: clarificationAnswer.trim() }]
+            : clarifications;
+        setIsParsing(true);
+        setParseError(null);
+        try {
+            const result = await parseScheduleRequest(quickAddText.trim(), history);
+            if (result.kind === 'clarification') {
+                setClarifications(history);
+                setPendingQuestion(result.question);
+                setClarificationAnswer('');
+            } else {
+                setEditingItem({ id: `item-${Date.now()}`, ...result.draft, isComplete: false, createdAt: Date.now(), reminders: [10] });
+                resetQuickAdd();
+            }
+        } catch (error) {
+            console.error(error);
+            setParseError("Couldn't understand that. Try rephrasing, or create the item manually.");
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const handleExportIcs = () => {
+        const url = URL.createObjectURL(new Blob([exportToIcs(sortByDateTime(items))], { type: 'text/calendar' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'w3j-schedule.ics';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportIcs = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const { items: imported, skippedDuplicates, unsupportedRecurrences } = parseIcs(await file.text(), new Set(items.map(getItemUid)));
+            setItems(prev => [...prev, ...imported]);
+            setImportMessage(`Imported ${imported.length} item${imported.length === 1 ? '' : 's'}` + (skippedDuplicates ? `, skipped ${skippedDuplicates} already in your schedule.` : '.')
+                + (unsupportedRecurrences ? ` ${unsupportedRecurrences} repeating event${unsupportedRecurrences === 1 ? ' uses a' : 's use a'} pattern that isn't supported, so only the first occurrence was added.` : ''));
+        } catch (error) {
+            console.error(error);
+            setImportMessage("Couldn't read that calendar file.");
+        }
+    };
+
+    const handleSaveItem = (item: ScheduledItem) => {
+        setItems(prev => prev.some(i => i.id === item.id) ? prev.map(i => i.id === item.id ? item : i) : [...prev, item]);
+        setEditingItem(null);
+    };
+
+    const handleDeleteItem = (id: string) => {
+        setItems(prev => prev.filter(i => i.id !== id));
+        setEditingItem(null);
+    };
+
+    const handleToggleComplete = (id: string) => {
+        setItems(prev => prev.map(i => i.id === id ? { ...i, isComplete: !i.isComplete } : i));
+    };
+
+    const handleNavigate = (direction: -1 | 1) => {
+        setCursorDate(d => calendarView === 'month' ? addMonths(d, direction) : addDays(d, 7 * direction));
+    };
+
+    const rangeLabel = calendarView === 'month'
+        ? cursorDate.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+        : calendarView === 'week'
+            ? `${startOfWeek(cursorDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${addDays(startOfWeek(cursorDate), 6).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+            : 'All items';
+
+    const weekdayLabels = Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(today), i).toLocaleDateString(undefined, { weekday: 'short' }));
+
+    const renderMonth = () => {
+        const gridStart = startOfWeek(startOfMonth(cursorDate));
+        const days = Array.from({ length: 42 }, (_, i) => addDays(gridStart, i));
+        return (
+            <div className="h-full flex flex-col min-h-[32rem]">
+                <div className="grid grid-cols-7 gap-1 mb-1">
+                    {weekdayLabels.map(label => <div key={label} className="text-xs text-center text-[var(--text-tertiary)] font-medium">{label}</div>)}
+                </div>
+                <div className="flex-1 grid grid-cols-7 grid-rows-6 gap-1">
+                    {days.map(day => {
+                        const dayItems = itemsOnDay(day);
+                        const inMonth = day.getMonth() === cursorDate.getMonth();
+                        return (
+                            <div
+                                key={day.toISOString()}
+                                onClick={() => handleNewItem(day)}
+                                className={`rounded-lg p-1 overflow-hidden cursor-pointer transition-colors hover:bg-[var(--surface-overlay)] ${inMonth ? 'bg-[var(--surface-base)]' : 'opacity-40'}`}
+                            >
+                                <div className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ${isSameDay(day, today) ? 'bg-gradient-accent text-slate-900' : 'text-[var(--text-secondary)]'}`}>{day.getDate()}</div>
+                                <div className="space-y-0.5 mt-0.5">
+                                    {dayItems.slice(0, 3).map(item => (
+                                        <button
+                                            key={item.id}
+                                            onClick={(e) => { e.stopPropagation(); setEditingItem(item); }}
+                                            className={`w-full text-left text-[11px] truncate px-1 rounded ${isOverdue(item) ? 'bg-red-500/20 text-red-300' : item.isComplete ? 'text-[var(--text-tertiary)] line-through' : 'bg-[var(--accent-teal)]/20 text-[var(--text-primary)]'}`}
+                                        >
+                                            {formatItemTime(item)} {item.title}
+                                        </button>
+                                    ))}
+                                    {dayItems.length > 3 && <p className="text-[11px] text-[var(--text-tertiary)] px-1">+{dayItems.length - 3} more</p>}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    const renderWeek = () => {
+        const days = Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(cursorDate), i));
+        return (
+            <div className="grid grid-cols-1 md:grid-cols-7 gap-2 h-full">
+                {days.map(day => (
+                    <div key={day.toISOString()} className="flex flex-col rounded-lg bg-[var(--surface-base)] p-2 min-h-[8rem]">
+                        <button onClick={() => handleNewItem(day)} className="text-left mb-2 group">
+                            <p className="text-xs text-[var(--text-tertiary)]">{day.toLocaleDateString(undefined, { weekday: 'short' })}</p>
+                            <p className={`text-lg font-semibold ${isSameDay(day, today) ? 'text-[var(--accent-teal)]' : ''}`}>
+                                {day.getDate()} <span className="text-xs font-normal text-[var(--text-tertiary)] opacity-0 group-hover:opacity-100">+ Add</span>
+                            </p>
+                        </button>
+                        <div className="space-y-1">
+                            {itemsOnDay(day).map(item => (
+                                <ScheduledItemRow key={item.id} item={item} compact onToggleComplete={handleToggleComplete} onEdit={setEditingItem} />
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    const renderAgenda = () => {
+        const overdue = sortByDateTime(items.filter(isOverdue));
+        const upcoming = sortByDateTime(items.filter(i => !isOverdue(i)));
+        const groups: { day: Date; items: ScheduledItem[] }[] = [];
+        upcoming.forEach(item => {
+            const day = startOfDay(new Date(item.dateTime));
+            const group = groups.find(g => isSameDay(g.day, day));
+            if (group) group.items.push(item); else groups.push({ day, items: [item] });
+        });
+
+        if (items.length === 0) {
+            return <p className="text-[var(--text-tertiary)] text-center py-12">Nothing scheduled yet. Create your first item to get started.</p>;
+        }
+        return (
+            <div className="space-y-6 max-w-2xl mx-auto">
+                {overdue.length > 0 && (
+                    <section>
+                        <h4 className="text-sm font-semibold text-red-400 mb-2">Overdue</h4>
+                        <div className="space-y-2">
+                            {overdue.map(item => <ScheduledItemRow key={item.id} item={item} onToggleComplete={handleToggleComplete} onEdit={setEditingItem} />)}
+                        </div>
+                    </section>
+                )}
+                {groups.map(group => (
+                    <section key={group.day.toISOString()}>
+                        <h4 className={`text-sm font-semibold mb-2 ${isSameDay(group.day, today) ? 'text-[var(--accent-teal)]' : 'text-[var(--text-secondary)]'}`}>
+                            {isSameDay(group.day, today) ? 'Today' : group.day.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+                        </h4>
+                        <div className="space-y-2">
+                            {group.items.map(item => <ScheduledItemRow key={item.id} item={item} onToggleComplete={handleToggleComplete} onEdit={setEditingItem} />)}
+                        </div>
+                    </section>
+                ))}
+            </div>
+        );
+    };
+
     return (
          <div className="h-full flex flex-col p-4 md:p-6 space-y-4">
-            <h2 className="text-2xl font-bold">Scheduler</h2>
-            <div className="flex-1 glass-surface rounded-xl p-4">
-                <p className="text-[var(--text-secondary)]">The calendar and event components would be rendered here, adapted to the new theme.</p>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-2xl font-bold">Scheduler</h2>
+                <div className="flex items-center gap-2">
+                    <div className="flex p-1 glass-surface rounded-lg">
+                        {(['month', 'week', 'agenda'] as SchedulerView[]).map(v => (
+                            <button
+                                key={v}
+                                onClick={() => setCalendarView(v)}
+                                className={`px-3 py-1.5 rounded-md text-sm font-medium capitalize transition-colors ${calendarView === v ? 'bg-gradient-accent text-slate-900' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+                            >
+                                {v}
+                            </button>
+                        ))}
+                    </div>
+                    <input ref={importInputRef} type="file" accept=".ics,text/calendar" onChange={handleImportIcs} className="hidden" />
+                    <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm" title="Import .ics" onClick={() => importInputRef.current?.click()}>Import</PremiumButton>
+                    <PremiumButton variant="ghost" className="!px-3 !py-2 !text-sm" title="Export .ics" onClick={handleExportIcs} disabled={items.length === 0}>
+                        {React.cloneElement(ICONS.DOWNLOAD, { className: 'w-4 h-4 mr-1' })}Export
+                    </PremiumButton>
+                    <PremiumButton onClick={() => handleNewItem()} className="!px-4 !py-2 !text-sm">{React.cloneElement(ICONS.PLUS, { className: 'w-4 h-4 mr-1' })}New</PremiumButton>
+                </div>
+            </div>
+            <form onSubmit={handleQuickAdd} className="glass-surface rounded-xl p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                    <span className="text-[var(--accent-teal)] flex-shrink-0">{React.cloneElement(ICONS.SPARKLES, { className: 'w-5 h-5' })}</span>
+                    <input
+                        value={quickAddText}
+                        onChange={(e) => { setQuickAddText(e.target.value); setPendingQuestion(null); setClarifications([]); }}
+                        placeholder='Quick add, e.g. "Dentist next Tuesday at 3pm, bring insurance card"'
+                        disabled={isParsing}
+                        className="flex-1 bg-transparent text-sm focus:outline-none placeholder:text-[var(--text-tertiary)]"
+                    />
+                    {isParsing ? <Loader /> : (
+                        <PremiumButton type="submit" variant="secondary" className="!px-3 !py-1.5 !text-sm" disabled={!quickAddText.trim() || (!!pendingQuestion && !clarificationAnswer.trim())}>
+                            Add
+                        </PremiumButton>
+                    )}
+                </div>
+                {pendingQuestion && (
+                    <div className="flex items-center gap-2 pl-7">
+                        <span className="text-sm text-[var(--accent-gold)] flex-shrink-0">{pendingQuestion}</span>
+                        <input
+                            value={clarificationAnswer}
+                            onChange={(e) => setClarificationAnswer(e.target.value)}
+                            placeholder="Your answer"
+                            autoFocus
+                            disabled={isParsing}
+                            className="flex-1 min-w-0 bg-[var(--surface-base)] rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent-teal)]"
+                        />
+                        <button type="button" onClick={resetQuickAdd} className="text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">Cancel</button>
+                    </div>
+                )}
+                {parseError && <p className="text-sm text-red-400 pl-7">{parseError}</p>}
+            </form>
+            {importMessage && (
+                <div className="flex items-center justify-between gap-2 text-sm text-[var(--text-secondary)] glass-surface rounded-lg px-3 py-2">
+                    <span>{importMessage}</span>
+                    <button onClick={() => setImportMessage(null)} className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">{React.cloneElement(ICONS.X_MARK, { className: 'w-4 h-4' })}</button>
+                </div>
+            )}
+            {calendarView !== 'agenda' && (
+                <div className="flex items-center gap-2">
+                    <PremiumButton variant="ghost" size="icon" onClick={() => handleNavigate(-1)}>{ICONS.CHEVRON_LEFT}</PremiumButton>
+                    <PremiumButton variant="secondary" className="!px-3 !py-1.5 !text-sm" onClick={() => setCursorDate(today)}>Today</PremiumButton>
+                    <PremiumButton variant="ghost" size="icon" onClick={() => handleNavigate(1)}>{ICONS.CHEVRON_RIGHT}</PremiumButton>
+                    <h3 className="font-medium ml-2">{rangeLabel}</h3>
+                </div>
+            )}
+            <div className="flex-1 min-h-0 glass-surface rounded-xl p-4 overflow-y-auto">
+                {calendarView === 'month' && renderMonth()}
+                {calendarView === 'week' && renderWeek()}
+                {calendarView === 'agenda' && renderAgenda()}
             </div>
+            <ScheduledItemEditor item={editingItem} isNew={!!editingItem && !items.some(i => i.id === editingItem.id)} onSave={handleSaveItem} onDelete={handleDeleteItem} onClose={() => setEditingItem(null)} />
         </div>
     )
 };
 
 
+const ReminderToasts: React.FC<{
+    reminders: ActiveReminder[];
+    onSnooze: (itemId: string) => void;
+    onComplete: (itemId: string) => void;
+    onDismiss: (itemId: string) => void;
+}> = ({ reminders, onSnooze, onComplete, onDismiss }) => (
+    <div className="fixed bottom-4 right-4 z-40 w-80 space-y-2 safe-padding-bottom">
+        <AnimatePresence>
+            {reminders.map(reminder => (
+                <motion.div
+                    key={reminder.itemId}
+                    layout
+                    initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, x: 40 }}
+                    className="glass-surface bg-[var(--surface-elevated)] rounded-xl shadow-premium p-4 border border-[var(--accent-teal)]/30"
+                >
+                    <div className="flex items-start gap-3">
+                        <span className="text-[var(--accent-teal)] mt-0.5">{React.cloneElement(ICONS.CLOCK, { className: 'w-5 h-5' })}</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{reminder.title}</p>
+                            <p className="text-xs text-[var(--text-secondary)]">
+                                {reminder.isMissed && <span className="text-[var(--accent-gold)]">Missed • </span>}
+                                {reminder.isAllDay ? 'All day' : new Date(reminder.dateTime).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+                            </p>
+                        </div>
+                        <button onClick={() => onDismiss(reminder.itemId)} className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">
+                            {React.cloneElement(ICONS.X_MARK, { className: 'w-4 h-4' })}
+                        </button>
+                    </div>
+                    <div className="flex gap-2 mt-3">
+                        <PremiumButton variant="secondary" className="flex-1 !px-3 !py-1.5 !text-sm" onClick={() => onSnooze(reminder.itemId)}>Snooze {SNOOZE_MINUTES} min</PremiumButton>
+                        <PremiumButton className="flex-1 !px-3 !py-1.5 !text-sm" onClick={() => onComplete(reminder.itemId)}>Mark done</PremiumButton>
+                    </div>
+                </motion.div>
+            ))}
+        </AnimatePresence>
+    </div>
+);
+
+
+// --- Command Palette ---
+interface PaletteCommand {
+    id: string;
+    label: string;
+    icon: React.ReactElement;
+    keywords?: string;
+    run: () => void;
+}
+
+const SEARCH_RESULT_ICONS: Record<SearchResult['type'], React.ReactElement> = {
+    Chat: ICONS.CHAT,
+    Media: ICONS.IMAGE_GEN,
+    Scheduler: ICONS.CALENDAR,
+};
+
+const MAX_PALETTE_RESULTS = 30;
+
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+    <>
+        {splitByTerms(text, terms).map((segment, i) => segment.isMatch
+            ? <mark key={i} className="bg-[var(--accent-teal)]/30 text-[var(--text-primary)] rounded-sm">{segment.text}</mark>
+            : <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )}
+    </>
+);
+
+const CommandPalette: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    commands: PaletteCommand[];
+    onSearch: (terms: string[]) => SearchResult[];
+}> = ({ isOpen, onClose, commands, onSearch }) => {
+    const [query, setQuery] = useState('');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setQuery('');
+            setSelectedIndex(0);
+        }
+    }, [isOpen]);
+
+    const terms = getSearchTerms(query);
+    const matchingCommands = terms.length > 0
+        ? commands.filter(c => matchesAllTerms(`${c.label} ${c.keywords || ''}`, terms))
+        : commands;
+    const results = terms.length > 0 ? onSearch(terms).slice(0, MAX_PALETTE_RESULTS) : [];
+    const entries = [
+        ...matchingCommands.map(c => ({ key: `command-${c.id}`, group: 'Commands', title: c.label, snippet: '', icon: c.icon, run: c.run })),
+        ...results.map(r => ({ key: `${r.type}-${r.id}`, group: r.type, title: r.title, snippet: r.snippet, icon: SEARCH_RESULT_ICONS[r.type], run: r.onClick })),
+    ];
+
+    useEffect(() => {
+        setSelectedIndex(0);
+    }, [query]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-entry-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    const runEntry = (index: number) => {
+        const entry = entries[index];
+        if (!entry) return;
+        onClose();
+        entry.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setSelectedIndex(i => Math.min(i + 1, entries.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setSelectedIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            runEntry(selectedIndex);
+        } else if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="fixed inset-0 bg-black/60 z-50 flex items-start justify-center p-4 pt-[12vh]"
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: -10, scale: 0.98 }} animate={{ opacity: 1, y: 0, scale: 1 }} exit={{ opacity: 0, y: -10, scale: 0.98 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-full max-w-xl glass-surface bg-[var(--surface-elevated)] rounded-2xl shadow-premium overflow-hidden"
+                    >
+                        <div className="flex items-center gap-3 px-4 border-b border-[var(--border-color)]">
+                            <span className="text-[var(--text-tertiary)]">{React.cloneElement(ICONS.SEARCH, { className: 'w-5 h-5' })}</span>
+                            <input
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                onKeyDown={handleKeyDown}
+                                placeholder="Search chats, media and schedule, or type a command..."
+                                autoFocus
+                                className="flex-1 bg-transparent py-4 text-[16px] focus:outline-none placeholder:text-[var(--text-tertiary)]"
+                            />
+                            <kbd className="text-xs text-[var(--text-tertiary)] border border-[var(--border-color)] rounded px-1.5 py-0.5">Esc</kbd>
+                        </div>
+                        <div ref={listRef} className="max-h-[50vh] overflow-y-auto p-2">
+                            {entries.length === 0 && <p className="text-sm text-center text-[var(--text-tertiary)] py-8">No results for “{query}”</p>}
+                            {entries.map((entry, index) => (
+                                <React.Fragment key={entry.key}>
+                                    {(index === 0 || entries[index - 1].group !== entry.group) && (
+                                        <p className="text-xs font-medium text-[var(--text-tertiary)] px-3 pt-3 pb-1">{entry.group}</p>
+                                    )}
+                                    <button
+                                        data-entry-index={index}
+                                        onClick={() => runEntry(index)}
+                                        onMouseMove={() => setSelectedIndex(index)}
+                                        className={`w-full flex items-start gap-3 p-3 rounded-lg text-left transition-colors ${index === selectedIndex ? 'bg-[var(--surface-overlay)]' : ''}`}
+                                    >
+                                        <span className="text-[var(--accent-teal)] mt-0.5">{React.cloneElement(entry.icon, { className: 'w-4 h-4' })}</span>
+                                        <span className="flex-1 min-w-0">
+                                            <span className="block text-sm font-medium truncate"><HighlightedText text={entry.title} terms={terms} /></span>
+                                            {entry.snippet && <span className="block text-xs text-[var(--text-secondary)] line-clamp-2"><HighlightedText text={entry.snippet} terms={terms} /></span>}
+                                        </span>
+                                    </button>
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+
 // --- Main App Structure ---
 const App: React.FC = () => {
     const [view, setView] = useLocalStorage<View>('activeView', 'chat');
-    const [sessions, setSessions] = useLocalStorage<ChatSession[]>('chatSessions', []);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    const handleStorageError = useCallback((error: unknown) => {
+        console.error(error);
+        setStorageError(isQuotaError(error)
+            ? "Storage is full, so recent changes weren't saved. Delete old conversations from the sidebar or items from the Media Suite library to free up space."
+            : "Recent changes couldn't be saved to this browser's storage.");
+    }, []);
+    const [sessions, setSessions, sessionsStatus, retrySessions] = useStoredCollection<ChatSession>(loadSessions, saveSessionChanges, handleStorageError);
     const [activeSessionId, setActiveSessionId] = useLocalStorage<string | null>('activeChatSessionId', null);
+    const [scheduledItems, setScheduledItems, scheduledItemsStatus, retryScheduledItems] = useStoredCollection<ScheduledItem>(
+        () => loadCollection('scheduledItems'), (previous, next) => saveCollectionChanges('scheduledItems', previous, next), handleStorageError);
+    const [enabledTools, setEnabledTools] = useLocalStorage<string[]>('enabledTools', TOOLS.map(t => t.declaration.name));
+    const [mediaAssets, setMediaAssets, mediaAssetsStatus, retryMediaAssets] = useStoredCollection<MediaAsset>(
+        () => loadCollection('mediaAssets'), (previous, next) => saveCollectionChanges('mediaAssets', previous, next), handleStorageError);
+    const [customPersonas, setCustomPersonas, personasStatus, retryPersonas] = useStoredCollection<Persona>(
+        () => loadCollection('personas'), (previous, next) => saveCollectionChanges('personas', previous, next), handleStorageError);
+    const storageStatuses = [sessionsStatus, scheduledItemsStatus, mediaAssetsStatus, personasStatus];
+    const isStorageReady = storageStatuses.every(status => status === 'loaded');
+    const storageLoadFailed = storageStatuses.includes('failed');
+    const retryStorageLoad = () => [retrySessions, retryScheduledItems, retryMediaAssets, retryPersonas].forEach(retry => retry());
+    const storageEstimate = useStorageEstimate([sessions, mediaAssets, scheduledItems, customPersonas]);
+    const personas = useMemo(() => [...defaultPersonas, ...customPersonas], [customPersonas]);
+    const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
+    const { activeReminders, dismissReminder, snoozeReminder, completeReminder } = useReminders(scheduledItems, setScheduledItems, scheduledItemsStatus === 'loaded');
+    const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+    const [chatFocus, setChatFocus] = useState<{ sessionId: string; messageIndex: number } | null>(null);
+    const [mediaFocus, setMediaFocus] = useState<string | null>(null);
+    const [schedulerFocus, setSchedulerFocus] = useState<string | null>(null);
     
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [isSidebarOpen, setIsSidebarOpen] = useState(() => !window.matchMedia('(max-width: 1024px)').matches);
@@ -964,13 +4387,131 @@ const App: React.FC = () => {
 
     const activeSession = sessions.find(s => s.id === activeSessionId);
 
+    const handleOpenSession = (sessionId: string) => {
+        setActiveSessionId(sessionId);
+        setView('chat');
+    };
+
+    const handleNewChat = () => {
+        const newSession = createSession({ id: `session-${Date.now()}`, title: "New Conversation", createdAt: Date.now(), personaId: 'default'});
+        setSessions(p => [newSession, ...p]);
+        setActiveSessionId(newSession.id);
+    };
+
+    // The chat view falls back to the latest remaining conversation when the open one is deleted.
+    const handleDeleteSession = (session: ChatSession) => {
+        if (!window.confirm(`Delete "${session.title}"? This can't be undone.`)) return;
+        setSessions(prev => prev.filter(s => s.id !== session.id));
+    };
+
+    const handleAssetCreated = useCallback((asset: Omit<MediaAsset, 'id' | 'createdAt'>) => {
+        const id = `asset-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+        setMediaAssets(prev => [{ ...asset, id, createdAt: Date.now() }, ...prev]);
+        return id;
+    }, [setMediaAssets]);
+
+    const handleUpdateAsset = useCallback((id: string, changes: Partial<MediaAsset>) => {
+        setMediaAssets(prev => prev.map(a => a.id === id ? { ...a, ...changes } : a));
+    }, [setMediaAssets]);
+
+    const handleDeleteAsset = useCallback((id: string) => {
+        setMediaAssets(prev => prev.filter(a => a.id !== id));
+    }, [setMediaAssets]);
+
+    const clearChatFocus = useCallback(() => setChatFocus(null), []);
+    const clearMediaFocus = useCallback(() => setMediaFocus(null), []);
+    const clearSchedulerFocus = useCallback(() => setSchedulerFocus(null), []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsCommandPaletteOpen(open => !open);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const viewLabels: Record<View, string> = { chat: 'Chat Agent', media: 'Media Suite', live: 'Live Agent', scheduler: 'Scheduler' };
+    const viewIcons: Record<View, React.ReactElement> = { chat: ICONS.CHAT, media: ICONS.VIDEO, live: ICONS.LIVE, scheduler: ICONS.CALENDAR };
+
+    const paletteCommands: PaletteCommand[] = [
+        { id: 'new-chat', label: 'New chat', icon: ICONS.PLUS, keywords: 'conversation create', run: () => { handleNewChat(); setView('chat'); } },
+        ...(Object.keys(viewLabels) as View[]).map(v => ({
+            id: `view-${v}`, label: `Go to ${viewLabels[v]}`, icon: viewIcons[v], keywords: 'switch view open', run: () => setView(v),
+        })),
+        { id: 'manage-personas', label: 'Manage personas', icon: ICONS.USER_PLUS, keywords: 'create import export custom', run: () => setIsPersonaManagerOpen(true) },
+        ...personas.map(persona => ({
+            id: `persona-${persona.id}`, label: `Switch persona: ${persona.name}`, icon: ICONS.USER, keywords: persona.description,
+            run: () => {
+                if (activeSessionId) setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, personaId: persona.id } : s));
+                setView('chat');
+            },
+        })),
+    ];
+
+    const searchEverything = (terms: string[]): SearchResult[] => {
+        const results: SearchResult[] = [];
+        sessions.forEach(session => {
+            getActiveMessages(session).forEach((message, messageIndex) => {
+                const text = getMessageText(message, ' ');
+                if (!matchesAllTerms(text, terms)) return;
+                results.push({
+                    type: 'Chat',
+                    id: `${session.id}:${messageIndex}`,
+                    title: session.title,
+                    snippet: createSnippet(text, terms),
+                    onClick: () => {
+                        handleOpenSession(session.id);
+                        setChatFocus({ sessionId: session.id, messageIndex });
+                    },
+                });
+            });
+        });
+        mediaAssets.forEach(asset => {
+            const text = `${asset.prompt} ${asset.text || ''}`;
+            if (!matchesAllTerms(text, terms)) return;
+            results.push({
+                type: 'Media',
+                id: asset.id,
+                title: `${asset.kind.charAt(0).toUpperCase()}${asset.kind.slice(1)} • ${new Date(asset.createdAt).toLocaleDateString()}`,
+                snippet: createSnippet(text, terms),
+                onClick: () => {
+                    setView('media');
+                    setMediaFocus(asset.id);
+                },
+            });
+        });
+        scheduledItems.forEach(item => {
+            const text = `${item.title} ${item.notes}`;
+            if (!matchesAllTerms(text, terms)) return;
+            results.push({
+                type: 'Scheduler',
+                id: item.id,
+                title: item.title,
+                snippet: `${new Date(item.dateTime).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: item.isAllDay ? undefined : 'short' })}${item.notes ? ` — ${createSnippet(item.notes, terms)}` : ''}`,
+                onClick: () => {
+                    setView('scheduler');
+                    setSchedulerFocus(item.id);
+                },
+            });
+        });
+        return results;
+    };
+
+    const toolContext: ToolContext = {
+        sessions,
+        addScheduledItem: (item) => setScheduledItems(prev => [...prev, item]),
+    };
+
     const renderView = () => {
         switch (view) {
-            case 'chat': return <ChatAgent {...{ sessions, setSessions, activeSessionId, setActiveSessionId }} />;
-            case 'live': return <LiveAgent />;
-            case 'media': return <MediaSuite />;
-            case 'scheduler': return <Scheduler />;
-            default: return <ChatAgent {...{ sessions, setSessions, activeSessionId, setActiveSessionId }} />;
+            case 'chat': return <ChatAgent {...{ sessions, setSessions, activeSessionId, setActiveSessionId, enabledTools, setEnabledTools, toolContext, personas }} onManagePersonas={() => setIsPersonaManagerOpen(true)} focusMessageIndex={chatFocus?.sessionId === activeSessionId ? chatFocus.messageIndex : null} onFocusHandled={clearChatFocus} />;
+            case 'live': return <LiveAgent {...{ setSessions, enabledTools, setEnabledTools, toolContext, personas }} onOpenSession={handleOpenSession} onManagePersonas={() => setIsPersonaManagerOpen(true)} />;
+            case 'media': return <MediaSuite assets={mediaAssets} onAssetCreated={handleAssetCreated} onUpdateAsset={handleUpdateAsset} onDeleteAsset={handleDeleteAsset} focusAssetId={mediaFocus} onFocusHandled={clearMediaFocus} />;
+            case 'scheduler': return <Scheduler items={scheduledItems} setItems={setScheduledItems} focusItemId={schedulerFocus} onFocusHandled={clearSchedulerFocus} />;
+            default: return <ChatAgent {...{ sessions, setSessions, activeSessionId, setActiveSessionId, enabledTools, setEnabledTools, toolContext, personas }} onManagePersonas={() => setIsPersonaManagerOpen(true)} focusMessageIndex={null} onFocusHandled={clearChatFocus} />;
         }
     };
     
@@ -998,16 +4539,13 @@ const App: React.FC = () => {
              </div>
              <h2 className="text-lg font-medium text-[var(--text-secondary)] absolute left-1/2 -translate-x-1/2 capitalize">{view}</h2>
              <div className="flex items-center gap-2">
+                <PremiumButton variant="ghost" size="icon" title="Search (⌘K)" onClick={() => setIsCommandPaletteOpen(true)}>{ICONS.SEARCH}</PremiumButton>
                 <PremiumButton variant="ghost" size="icon">{ICONS.USER}</PremiumButton>
                 <PremiumButton 
                     variant="secondary" 
                     size="icon" 
                     onClick={() => {
-                        if (view === 'chat') {
-                             const newSession: ChatSession = { id: `session-${Date.now()}`, title: "New Conversation", createdAt: Date.now(), messages: [], personaId: 'default'};
-                             setSessions(p => [newSession, ...p]);
-                             setActiveSessionId(newSession.id);
-                        }
+                        if (view === 'chat') handleNewChat();
                     }} 
                 >
                     {ICONS.PLUS}
@@ -1036,16 +4574,45 @@ const App: React.FC = () => {
              <div className="flex-1 min-h-0 flex flex-col border-t border-[var(--border-color)] pt-4">
                  <h3 className="text-sm font-medium text-[var(--text-secondary)] px-3 pb-2">Conversations</h3>
                  <div className="flex-1 overflow-y-auto space-y-1 pr-1">
-                    {sessions.filter(s=>s.title !== "New Conversation" || s.messages.length > 0).map(session => (
-                        <button key={session.id} onClick={() => setActiveSessionId(session.id)}
-                            className={`w-full text-left text-sm p-3 rounded-lg truncate ${activeSessionId === session.id ? 'bg-[var(--surface-overlay)] text-[var(--text-primary)]' : 'text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)]'}`}
-                        >
-                            {session.title}
-                        </button>
+                    {sessions.filter(s=>s.title !== "New Conversation" || s.activeLeafId !== null).map(session => (
+                        <div key={session.id} className="group relative">
+                            <button onClick={() => { handleOpenSession(session.id); if (isMobile) setIsSidebarOpen(false); }}
+                                className={`w-full text-left text-sm p-3 pr-9 rounded-lg truncate ${activeSessionId === session.id ? 'bg-[var(--surface-overlay)] text-[var(--text-primary)]' : 'text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)]'}`}
+                            >
+                                {session.title}
+                            </button>
+                            <button
+                                onClick={() => handleDeleteSession(session)}
+                                title="Delete conversation"
+                                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded text-[var(--text-tertiary)] hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                            >
+                                {React.cloneElement(ICONS.TRASH, { className: 'w-4 h-4' })}
+                            </button>
+                        </div>
                     ))}
                  </div>
              </div>
             <div className="pt-4 mt-auto border-t border-[var(--border-color)]">
+                 {storageError && (
+                    <div className="mx-1 mb-3 p-2 rounded-lg text-xs bg-[var(--accent-warning)]/20 text-[var(--text-primary)] flex items-start gap-2">
+                        <span className="flex-1">{storageError}</span>
+                        <button onClick={() => setStorageError(null)} title="Dismiss" className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">{React.cloneElement(ICONS.X_MARK, { className: 'w-4 h-4' })}</button>
+                    </div>
+                 )}
+                 {storageEstimate && storageEstimate.quota > 0 && (
+                    <div className="px-3 pb-3" title="Chats, media, personas and schedule are stored in this browser">
+                        <div className="flex justify-between text-[11px] text-[var(--text-tertiary)] mb-1">
+                            <span>Storage</span>
+                            <span>{formatFileSize(storageEstimate.usage)} of {formatFileSize(storageEstimate.quota)}</span>
+                        </div>
+                        <div className="h-1 rounded-full bg-[var(--surface-overlay)] overflow-hidden">
+                            <div
+                                className={`h-full rounded-full ${storageEstimate.usage / storageEstimate.quota > 0.9 ? 'bg-[var(--accent-warning)]' : 'bg-[var(--accent-teal)]'}`}
+                                style={{ width: `${Math.min(100, Math.max(1, storageEstimate.usage / storageEstimate.quota * 100))}%` }}
+                            />
+                        </div>
+                    </div>
+                 )}
                  <button className="flex items-center gap-3 p-3 rounded-lg w-full text-left transition-colors text-sm font-medium text-[var(--text-secondary)] hover:bg-[var(--surface-overlay)] hover:text-[var(--text-primary)]">
                     {ICONS.SETTINGS}
                     <span>Settings</span>
@@ -1068,9 +4635,10 @@ const App: React.FC = () => {
     );
 
     const ContextPanel: React.FC<{ session: ChatSession | undefined }> = ({ session }) => {
-        const lastMessage = session?.messages[session.messages.length - 1];
+        const lastMessage = session ? getActiveMessages(session).at(-1) : undefined;
         const isPrototyperActive = session?.personaId === 'prototyper';
-        const htmlContent = lastMessage?.role === 'model' && lastMessage.parts[0].text ? extractHtmlContent(lastMessage.parts[0].text) : null;
+        const lastText = lastMessage?.role === 'model' ? getMessageText(lastMessage) : '';
+        const htmlContent = lastText ? extractHtmlContent(lastText) : null;
         
         return (
              <motion.aside
@@ -1122,11 +4690,19 @@ const App: React.FC = () => {
                            {ICONS.CHEVRON_LEFT}
                         </PremiumButton>
                      )}
-                    {renderView()}
+                    {isStorageReady ? renderView() : storageLoadFailed ? (
+                        <div className="h-full flex flex-col items-center justify-center text-center gap-4">
+                            <p className="max-w-md text-[var(--text-secondary)]">Your saved chats, media and schedule couldn't be loaded from this browser's storage. Nothing has been changed.</p>
+                            <PremiumButton onClick={retryStorageLoad}>Try Again</PremiumButton>
+                        </div>
+                    ) : <Loader text="Loading your workspace..." className="h-full" />}
                 </main>
             </div>
             
             <ContextPanel session={activeSession} />
+            <PersonaManagerModal isOpen={isPersonaManagerOpen} onClose={() => setIsPersonaManagerOpen(false)} personas={personas} setCustomPersonas={setCustomPersonas} />
+            <CommandPalette isOpen={isCommandPaletteOpen} onClose={() => setIsCommandPaletteOpen(false)} commands={paletteCommands} onSearch={searchEverything} />
+            <ReminderToasts reminders={activeReminders} onSnooze={snoozeReminder} onComplete={completeReminder} onDismiss={dismissReminder} />
         </div>
     );
 };
@@ -0,0 +1,25 @@
+// Service worker for reminder notifications. It only relays the notification's action buttons
+// (snooze, mark done) to the app, which owns the scheduled items.
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("notificationclick", (event) => {
+  const { id } = event.notification.data || {};
+  const action = event.action; // Empty when the notification itself was clicked
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    if (windows.length === 0) {
+      // The app reads the action from the URL once its schedule has loaded.
+      await self.clients.openWindow(action && id ? `/?reminderAction=${action}&reminderId=${encodeURIComponent(id)}` : "/");
+      return;
+    }
+    if (action && id) {
+      windows[0].postMessage({ type: "reminder-action", action, id });
+    } else {
+      await windows[0].focus();
+    }
+  })());
+});
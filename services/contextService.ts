@@ -0,0 +1,45 @@
+import type { Content } from "@google/genai";
+import type { ChatMessage } from "../types";
+import getAi from "./geminiService";
+
+export const SUMMARY_MODEL = "gemini-2.5-flash";
+
+// The Gemini API only counts contents; system instructions and tools aren't included.
+export async function countContextTokens(model: string, contents: Content[], abortSignal?: AbortSignal): Promise<number> {
+  const ai = getAi();
+  const response = await ai.models.countTokens({ model, contents, config: { abortSignal } });
+  return response.totalTokens || 0;
+}
+
+function describeMessage(message: ChatMessage): string {
+  return message.parts.map(part => {
+    if (part.text) return part.text;
+    if (part.inlineData) return `[Attached ${part.fileName || part.inlineData.mimeType}]`;
+    if (part.executableCode) return `[Ran code]\n${part.executableCode.code}`;
+    if (part.codeExecutionResult?.output) return `[Code output]\n${part.codeExecutionResult.output}`;
+    return "";
+  }).filter(Boolean).join("\n");
+}
+
+/**
+ * Folds `messages` into the previous rolling summary, returning one summary of the whole
+ * conversation so far. Attachments are only referred to by name.
+ */
+export async function summarizeConversation(previousSummary: string | null, messages: ChatMessage[], abortSignal?: AbortSignal): Promise<string> {
+  const ai = getAi();
+  const transcript = messages.map(m => `${m.role === "user" ? "User" : "Assistant"}: ${describeMessage(m)}`).join("\n\n");
+  const response = await ai.models.generateContent({
+    model: SUMMARY_MODEL,
+    contents: previousSummary
+      ? `Summary so far:\n${previousSummary}\n\nLater messages:\n${transcript}`
+      : transcript,
+    config: {
+      systemInstruction: "Summarize this conversation so the assistant can continue it without the original messages. Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries. Write compact bullet points.",
+      thinkingConfig: { thinkingBudget: 0 },
+      abortSignal,
+    },
+  });
+  const summary = (response.text || "").trim();
+  if (!summary) throw new Error("The summary came back empty.");
+  return summary;
+}
@@ -0,0 +1,78 @@
+import { Modality } from "@google/genai";
+import getAi from "./geminiService";
+
+export const GEMINI_IMAGE_MODEL = "gemini-2.5-flash-image";
+
+// Only the Gemini image model accepts a seed through the Gemini API.
+export const IMAGE_MODELS = [
+  { id: "imagen-4.0-generate-001", label: "Imagen 4", supportsSeed: false },
+  { id: GEMINI_IMAGE_MODEL, label: "Gemini Flash Image", supportsSeed: true },
+];
+
+export const MAX_IMAGES_PER_RUN = 4;
+export const MAX_SEED = 2147483647;
+
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+  negativePrompt?: string;
+  aspectRatio: string;
+  count: number;
+  seed?: number;
+}
+
+export interface GeneratedImageData {
+  data: string; // base64 string
+  mimeType: string;
+  seed?: number;
+}
+
+// The Gemini API rejects Imagen's negativePrompt parameter, so exclusions are written into the prompt.
+function withNegativePrompt(prompt: string, negativePrompt?: string): string {
+  return negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${negativePrompt.trim()}` : prompt;
+}
+
+async function generateWithGemini(prompt: string, aspectRatio: string, seed?: number, image?: { data: string; mimeType: string }): Promise<GeneratedImageData> {
+  const ai = getAi();
+  const response = await ai.models.generateContent({
+    model: GEMINI_IMAGE_MODEL,
+    contents: { parts: [...(image ? [{ inlineData: image }] : []), { text: prompt }] },
+    config: {
+      responseModalities: [Modality.IMAGE],
+      imageConfig: { aspectRatio },
+      ...(seed !== undefined && { seed }),
+    },
+  });
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+  if (!part?.inlineData?.data) throw new Error("No image was returned.");
+  return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || "image/png", seed };
+}
+
+export async function generateImages(request: ImageGenerationRequest): Promise<GeneratedImageData[]> {
+  const prompt = withNegativePrompt(request.prompt, request.negativePrompt);
+  if (request.model === GEMINI_IMAGE_MODEL) {
+    // One image per call; consecutive seeds keep every image of the run reproducible.
+    return Promise.all(Array.from({ length: request.count }, (_, i) =>
+      generateWithGemini(prompt, request.aspectRatio, request.seed !== undefined ? request.seed + i : undefined)));
+  }
+  const ai = getAi();
+  const response = await ai.models.generateImages({
+    model: request.model,
+    prompt,
+    config: {
+      numberOfImages: request.count,
+      outputMimeType: "image/jpeg",
+      aspectRatio: request.aspectRatio,
+    },
+  });
+  const images = (response.generatedImages || []).flatMap(g => g.image?.imageBytes ? [{ data: g.image.imageBytes, mimeType: "image/jpeg" }] : []);
+  // Images blocked by safety filters are left out of the response.
+  if (images.length === 0) throw new Error("No images were returned.");
+  return images;
+}
+
+// Variations need an input image, which Imagen can't take, so they always use the Gemini image model.
+export async function generateVariations(image: { data: string; mimeType: string }, prompt: string, aspectRatio: string, count: number): Promise<GeneratedImageData[]> {
+  const instruction = `Create a variation of this image. Keep its subject, composition and style, but vary the details.${prompt ? ` It was made from this prompt: ${prompt}` : ""}`;
+  return Promise.all(Array.from({ length: count }, () => generateWithGemini(instruction, aspectRatio, undefined, image)));
+}
@@ -0,0 +1,42 @@
+import getAi from "./geminiService";
+
+export const PROMPT_ENHANCER_MODEL = "gemini-2.5-flash";
+
+export type PromptTarget = "image" | "video";
+
+export const PROMPT_STYLE_PRESETS = [
+  { id: "none", label: "Any style", hint: "" },
+  { id: "photoreal", label: "Photoreal", hint: "photorealistic, shot on a professional camera, natural detail" },
+  { id: "cinematic", label: "Cinematic", hint: "cinematic film still, dramatic lighting, anamorphic lens, color graded" },
+  { id: "illustration", label: "Illustration", hint: "detailed digital illustration, clean line work, rich color" },
+  { id: "anime", label: "Anime", hint: "anime style, cel shading, expressive characters" },
+  { id: "3d", label: "3D render", hint: "3D render, soft global illumination, physically based materials" },
+  { id: "watercolor", label: "Watercolor", hint: "watercolor painting, soft washes, visible paper texture" },
+] as const;
+
+export type PromptStylePreset = typeof PROMPT_STYLE_PRESETS[number]["id"];
+
+const INSTRUCTIONS: Record<PromptTarget, string> = {
+  image: "You rewrite short ideas into detailed prompts for an image generation model. Describe the subject, setting, art style, lighting, camera lens and composition in one flowing paragraph.",
+  video: "You rewrite short ideas into detailed prompts for a video generation model. Describe the subject and its action, setting, visual style, lighting, camera lens, camera movement and composition in one flowing paragraph.",
+};
+
+/**
+ * Rewrites a short idea into a detailed generation prompt, keeping the user's intent. Returns the
+ * prompt text only, without quotes or commentary.
+ */
+export async function enhancePrompt(idea: string, target: PromptTarget, style: PromptStylePreset): Promise<string> {
+  const ai = getAi();
+  const hint = PROMPT_STYLE_PRESETS.find(p => p.id === style)?.hint;
+  const response = await ai.models.generateContent({
+    model: PROMPT_ENHANCER_MODEL,
+    contents: hint ? `Idea: ${idea}\n\nStyle: ${hint}` : `Idea: ${idea}`,
+    config: {
+      systemInstruction: `${INSTRUCTIONS[target]} Keep every detail the user gave and don't change what they asked for. Stay under 120 words. Reply with the prompt only.`,
+      thinkingConfig: { thinkingBudget: 0 },
+    },
+  });
+  const prompt = (response.text || "").trim().replace(/^["']|["']$/g, "");
+  if (!prompt) throw new Error("The enhanced prompt came back empty.");
+  return prompt;
+}
@@ -0,0 +1,75 @@
+import { Type } from "@google/genai";
+import getAi from "./geminiService";
+
+export interface ScheduleDraft {
+  title: string;
+  notes: string;
+  dateTime: string; // ISO string format
+}
+
+export type ScheduleParseResult =
+  | { kind: "draft"; draft: ScheduleDraft }
+  | { kind: "clarification"; question: string };
+
+// One round of clarification: the question the model asked and the user's answer.
+export interface ScheduleClarification {
+  question: string;
+  answer: string;
+}
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Short title of the event or task, without the date or time." },
+    notes: { type: Type.STRING, description: "Any extra details, e.g. things to bring. Empty string if none." },
+    dateTime: { type: Type.STRING, description: "Start in ISO 8601 format with the user's UTC offset, e.g. 2025-03-04T15:00:00-05:00. Empty string if ambiguous." },
+    needsClarification: { type: Type.BOOLEAN, description: "True when the date or time cannot be determined with confidence." },
+    clarificationQuestion: { type: Type.STRING, description: "A short question to resolve the ambiguity. Empty string if not needed." },
+  },
+  required: ["title", "notes", "dateTime", "needsClarification", "clarificationQuestion"],
+  propertyOrdering: ["title", "notes", "dateTime", "needsClarification", "clarificationQuestion"],
+};
+
+const formatUtcOffset = (date: Date) => {
+  const minutes = -date.getTimezoneOffset();
+  const sign = minutes >= 0 ? "+" : "-";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Turns a natural-language description such as "dentist next Tuesday at 3pm" into a draft
+ * ScheduledItem. Relative dates are resolved against the user's current local time and timezone;
+ * when the date is ambiguous a clarification question is returned instead of a draft.
+ */
+export async function parseScheduleRequest(text: string, clarifications: ScheduleClarification[] = []): Promise<ScheduleParseResult> {
+  const now = new Date();
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const context = [
+    `Current local date and time: ${now.toLocaleString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric", hour: "numeric", minute: "2-digit" })}`,
+    `Timezone: ${timeZone} (UTC${formatUtcOffset(now)})`,
+    `Request: ${text}`,
+    ...clarifications.flatMap(c => [`You asked: ${c.question}`, `User answered: ${c.answer}`]),
+  ].join("\n");
+
+  const ai = getAi();
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: context,
+    config: {
+      systemInstruction: "You extract calendar items from short requests. Resolve relative dates (\"tomorrow\", \"next Tuesday\") against the current local date. If no time is given for an event, ask for one unless a reasonable all-day reminder is clearly intended, in which case use 09:00. Ask for clarification only when the date itself is genuinely ambiguous.",
+      responseMimeType: "application/json",
+      responseSchema,
+    },
+  });
+
+  const parsed = JSON.parse(response.text || "{}");
+  const date = new Date(parsed.dateTime);
+  if (parsed.needsClarification || isNaN(date.getTime())) {
+    return { kind: "clarification", question: parsed.clarificationQuestion || "When should this be scheduled?" };
+  }
+  return {
+    kind: "draft",
+    draft: { title: parsed.title || text, notes: parsed.notes || "", dateTime: date.toISOString() },
+  };
+}
@@ -0,0 +1,197 @@
+import type { ChatSession, MediaAsset, MessageNode, Persona, ScheduledItem } from "../types";
+import { migrateSession } from "../utils/messageTreeUtils";
+
+const DB_NAME = "w3j-power-suite";
+
+// Each entry upgrades the schema by one version. Never change a shipped entry; append a new one.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: one store per collection. Message nodes are kept apart from their session so that a
+  // streaming reply rewrites a single record rather than the whole conversation.
+  (db) => {
+    db.createObjectStore("sessions", { keyPath: "id" });
+    db.createObjectStore("messages", { keyPath: "id" }).createIndex("sessionId", "sessionId");
+    db.createObjectStore("mediaAssets", { keyPath: "id" });
+    db.createObjectStore("personas", { keyPath: "id" });
+    db.createObjectStore("scheduledItems", { keyPath: "id" });
+    db.createObjectStore("meta");
+  },
+];
+
+type StoredSession = Omit<ChatSession, "nodes">;
+type StoredMessage = MessageNode & { sessionId: string };
+
+interface Collections {
+  mediaAssets: MediaAsset;
+  personas: Persona;
+  scheduledItems: ScheduledItem;
+}
+export type CollectionName = keyof Collections;
+
+// Stores keep no order, so each collection is sorted the way the app builds it.
+const COLLECTION_ORDER: { [K in CollectionName]: (a: Collections[K], b: Collections[K]) => number } = {
+  mediaAssets: (a, b) => b.createdAt - a.createdAt,
+  personas: (a, b) => a.id.localeCompare(b.id), // Custom persona ids start with their creation time
+  scheduledItems: (a, b) => a.createdAt - b.createdAt,
+};
+
+// Where earlier versions kept each collection in localStorage.
+const LEGACY_KEYS = { sessions: "chatSessions", mediaAssets: "mediaAssets", personas: "customPersonas", scheduledItems: "scheduledItems" };
+const LEGACY_IMPORT_FLAG = "localStorageImported";
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException("Transaction aborted", "AbortError"));
+  });
+}
+
+function readLegacyItems<T>(key: string): T[] {
+  try {
+    const item = window.localStorage.getItem(key);
+    const parsed = item ? JSON.parse(item) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+}
+
+// Copies data saved by earlier versions into the database once, then frees the localStorage space.
+async function importFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const transaction = db.transaction(["sessions", "messages", "mediaAssets", "personas", "scheduledItems", "meta"], "readwrite");
+  const done = whenComplete(transaction);
+  const meta = transaction.objectStore("meta");
+  if (await toPromise(meta.get(LEGACY_IMPORT_FLAG))) {
+    await done;
+    return;
+  }
+  for (const session of readLegacyItems<ChatSession>(LEGACY_KEYS.sessions).map(migrateSession)) {
+    putSession(transaction, session);
+  }
+  (["mediaAssets", "personas", "scheduledItems"] as const).forEach(name => {
+    readLegacyItems(LEGACY_KEYS[name]).forEach(item => transaction.objectStore(name).put(item));
+  });
+  meta.put(true, LEGACY_IMPORT_FLAG);
+  await done;
+  Object.values(LEGACY_KEYS).forEach(key => window.localStorage.removeItem(key));
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).then(async db => {
+    await importFromLocalStorage(db);
+    return db;
+  }).catch(error => {
+    databasePromise = null; // Let the next call try again
+    throw error;
+  });
+  return databasePromise;
+}
+
+function putSession(transaction: IDBTransaction, session: ChatSession) {
+  const { nodes, ...fields } = session;
+  transaction.objectStore("sessions").put(fields);
+  Object.values(nodes).forEach(node => transaction.objectStore("messages").put({ ...node, sessionId: session.id }));
+}
+
+export async function loadSessions(): Promise<ChatSession[]> {
+  const db = await getDatabase();
+  const transaction = db.transaction(["sessions", "messages"], "readonly");
+  const [sessions, messages] = await Promise.all([
+    toPromise<StoredSession[]>(transaction.objectStore("sessions").getAll()),
+    toPromise<StoredMessage[]>(transaction.objectStore("messages").getAll()),
+  ]);
+  const nodesBySession = new Map<string, Record<string, MessageNode>>();
+  for (const { sessionId, ...node } of messages) {
+    if (!nodesBySession.has(sessionId)) nodesBySession.set(sessionId, {});
+    nodesBySession.get(sessionId)![node.id] = node;
+  }
+  return sessions
+    .map(session => ({ ...session, nodes: nodesBySession.get(session.id) || {} }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Writes the difference between two versions of the session list. Unchanged sessions and
+// message nodes are recognised by reference, so only what was actually updated is stored.
+export async function saveSessionChanges(previous: ChatSession[], next: ChatSession[]): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(["sessions", "messages"], "readwrite");
+  const done = whenComplete(transaction);
+  const sessions = transaction.objectStore("sessions");
+  const messages = transaction.objectStore("messages");
+  const previousById = new Map(previous.map(s => [s.id, s]));
+
+  for (const session of next) {
+    const before = previousById.get(session.id);
+    previousById.delete(session.id);
+    if (before === session) continue;
+    if (!before) {
+      putSession(transaction, session);
+      continue;
+    }
+    const { nodes, ...fields } = session;
+    sessions.put(fields);
+    Object.values(nodes).forEach(node => {
+      if (before.nodes[node.id] !== node) messages.put({ ...node, sessionId: session.id });
+    });
+    Object.keys(before.nodes).forEach(id => {
+      if (!nodes[id]) messages.delete(id);
+    });
+  }
+  // Whatever is left was deleted.
+  for (const session of previousById.values()) {
+    sessions.delete(session.id);
+    const keys = await toPromise(messages.index("sessionId").getAllKeys(session.id));
+    keys.forEach(key => messages.delete(key));
+  }
+  await done;
+}
+
+export async function loadCollection<K extends CollectionName>(name: K): Promise<Collections[K][]> {
+  const db = await getDatabase();
+  const items = await toPromise<Collections[K][]>(db.transaction(name, "readonly").objectStore(name).getAll());
+  return items.sort(COLLECTION_ORDER[name]);
+}
+
+export async function saveCollectionChanges<K extends CollectionName>(name: K, previous: Collections[K][], next: Collections[K][]): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(name, "readwrite");
+  const done = whenComplete(transaction);
+  const store = transaction.objectStore(name);
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  for (const item of next) {
+    if (previousById.get(item.id) !== item) store.put(item);
+    previousById.delete(item.id);
+  }
+  previousById.forEach((_, id) => store.delete(id));
+  await done;
+}
+
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "QuotaExceededError";
+}
+
+// How much the browser lets this origin store, or null where the estimate isn't available.
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
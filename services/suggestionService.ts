@@ -0,0 +1,44 @@
+import { Type } from "@google/genai";
+import getAi from "./geminiService";
+
+const MAX_CONTEXT_CHARS = 4000;
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    suggestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "2 to 4 short follow-up prompts, written as the user would type them.",
+    },
+  },
+  required: ["suggestions"],
+};
+
+/**
+ * Suggests follow-up prompts for the latest exchange using a cheap secondary call, so the main
+ * reply can stream as free text. Returns an empty list rather than throwing.
+ */
+export async function generateFollowUpSuggestions(userText: string, replyText: string): Promise<string[]> {
+  try {
+    const ai = getAi();
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `User: ${userText.slice(-MAX_CONTEXT_CHARS / 4)}\n\nAssistant: ${replyText.slice(0, MAX_CONTEXT_CHARS)}`,
+      config: {
+        systemInstruction: "Suggest 2 to 4 natural follow-up prompts the user might send next in this conversation. Keep each under 60 characters and don't repeat what was already asked.",
+        responseMimeType: "application/json",
+        responseSchema,
+        thinkingConfig: { thinkingBudget: 0 },
+      },
+    });
+    const parsed = JSON.parse(response.text || "{}");
+    return (Array.isArray(parsed.suggestions) ? parsed.suggestions : [])
+      .filter((s: unknown): s is string => typeof s === "string" && s.trim().length > 0)
+      .map((s: string) => s.trim())
+      .slice(0, 4);
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+}
@@ -0,0 +1,162 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import type { ChatMessagePart, ChatSession, ScheduledItem, ToolCall } from "../types";
+import type { ICONS } from "../constants";
+import getAi from "./geminiService";
+import { getActiveMessages } from "../utils/messageTreeUtils";
+
+// State from the app that tool executors are allowed to read or change.
+export interface ToolContext {
+  sessions: ChatSession[];
+  addScheduledItem: (item: ScheduledItem) => void;
+}
+
+export interface ToolResult {
+  response: Record<string, unknown>; // Sent back to the model as the function response
+  output?: ChatMessagePart; // Optional media shown to the user but not sent back to the model
+}
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration & { name: string };
+  label: string;
+  description: string;
+  icon: keyof typeof ICONS;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
+}
+
+const MAX_SEARCH_RESULTS = 5;
+
+const createScheduledItemTool: ToolDefinition = {
+  label: "Create scheduled item",
+  description: "Adds an event or reminder to your Scheduler.",
+  icon: "CALENDAR",
+  declaration: {
+    name: "create_scheduled_item",
+    description: "Creates a new item in the user's scheduler, e.g. an appointment, reminder or task with a due time.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING, description: "Short title of the item." },
+        dateTime: { type: Type.STRING, description: "Date and time in ISO 8601 format, including the timezone offset." },
+        notes: { type: Type.STRING, description: "Optional extra details." },
+      },
+      required: ["title", "dateTime"],
+    },
+  },
+  execute: async (args, context) => {
+    const date = new Date(String(args.dateTime));
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid dateTime: ${args.dateTime}`);
+    }
+    const item: ScheduledItem = {
+      id: `item-${Date.now()}`,
+      title: String(args.title),
+      notes: args.notes ? String(args.notes) : "",
+      dateTime: date.toISOString(),
+      isComplete: false,
+      createdAt: Date.now(),
+    };
+    context.addScheduledItem(item);
+    return { response: { status: "created", id: item.id, title: item.title, dateTime: item.dateTime } };
+  },
+};
+
+const searchChatsTool: ToolDefinition = {
+  label: "Search past chats",
+  description: "Looks up earlier conversations for relevant messages.",
+  icon: "SEARCH",
+  declaration: {
+    name: "search_chats",
+    description: "Searches the user's previous chat conversations for messages containing the query text.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: "Text to search for." },
+      },
+      required: ["query"],
+    },
+  },
+  execute: async (args, context) => {
+    const query = String(args.query).toLowerCase();
+    const results: { conversation: string; role: string; snippet: string }[] = [];
+    for (const session of context.sessions) {
+      for (const message of getActiveMessages(session)) {
+        const text = message.parts.map(p => p.text || "").join(" ");
+        const index = text.toLowerCase().indexOf(query);
+        if (index === -1) continue;
+        results.push({
+          conversation: session.title,
+          role: message.role,
+          snippet: text.substring(Math.max(0, index - 80), index + query.length + 80),
+        });
+        if (results.length >= MAX_SEARCH_RESULTS) {
+          return { response: { results } };
+        }
+      }
+    }
+    return { response: { results } };
+  },
+};
+
+const generateImageTool: ToolDefinition = {
+  label: "Generate image",
+  description: "Creates an image from a text description with Imagen.",
+  icon: "IMAGE_GEN",
+  declaration: {
+    name: "generate_image",
+    description: "Generates an image from a detailed text prompt and shows it to the user.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: "Detailed description of the image." },
+        aspectRatio: { type: Type.STRING, enum: ["1:1", "16:9", "9:16", "4:3", "3:4"], description: "Aspect ratio of the image." },
+      },
+      required: ["prompt"],
+    },
+  },
+  execute: async (args) => {
+    const ai = getAi();
+    const response = await ai.models.generateImages({
+      model: "imagen-4.0-generate-001",
+      prompt: String(args.prompt),
+      config: {
+        numberOfImages: 1,
+        outputMimeType: "image/jpeg",
+        aspectRatio: args.aspectRatio ? String(args.aspectRatio) : "1:1",
+      },
+    });
+    const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    if (!imageBytes) {
+      throw new Error("No image was returned.");
+    }
+    return {
+      response: { status: "generated", note: "The image is now displayed to the user." },
+      output: { inlineData: { data: imageBytes, mimeType: "image/jpeg" } },
+    };
+  },
+};
+
+export const TOOLS: ToolDefinition[] = [createScheduledItemTool, searchChatsTool, generateImageTool];
+
+export const getTool = (name: string) => TOOLS.find(t => t.declaration.name === name);
+
+export const getFunctionDeclarations = (enabledTools: string[]): FunctionDeclaration[] =>
+  TOOLS.filter(t => enabledTools.includes(t.declaration.name)).map(t => t.declaration);
+
+// Appended to the system instruction whenever tools are enabled, so relative dates can be resolved.
+export const getToolSystemInstruction = () => `The current date and time is ${new Date().toString()}.`;
+
+// Runs a pending call and returns it with its status and result filled in. Never throws:
+// failures are reported back to the model as an error response.
+export const executeToolCall = async (call: ToolCall, context: ToolContext): Promise<ToolCall> => {
+  const tool = getTool(call.name);
+  if (!tool) {
+    return { ...call, status: "error", result: { error: `Unknown tool: ${call.name}` } };
+  }
+  try {
+    const { response, output } = await tool.execute(call.args, context);
+    return { ...call, status: "done", result: response, output };
+  } catch (error: any) {
+    console.error(error);
+    return { ...call, status: "error", result: { error: error?.message || "Tool execution failed." } };
+  }
+};
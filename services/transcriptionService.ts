@@ -0,0 +1,16 @@
+import getAi from "./geminiService";
+
+export const TRANSCRIPTION_MODEL = "gemini-2.5-flash";
+
+// Transcribes a recorded clip and returns only the spoken text.
+export async function transcribeAudio(data: string, mimeType: string): Promise<string> {
+  const ai = getAi();
+  const response = await ai.models.generateContent({
+    model: TRANSCRIPTION_MODEL,
+    contents: [
+      { parts: [{ text: "Transcribe the following audio precisely. Reply with the transcription only." }] },
+      { parts: [{ inlineData: { mimeType, data } }] },
+    ],
+  });
+  return (response.text || "").trim();
+}
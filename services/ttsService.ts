@@ -0,0 +1,36 @@
+import { Modality } from "@google/genai";
+import getAi from "./geminiService";
+import type { Persona } from "../types";
+
+export const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+export const TTS_SAMPLE_RATE = 24000; // The TTS model returns 16-bit mono PCM at 24 kHz
+
+// Strips markdown syntax and code blocks so the voice reads prose, not punctuation.
+export function toSpeakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?(```|$)/g, " (code omitted) ")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)(.*?)\1/g, "$2")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Returns base64-encoded PCM audio of `text` read in the given prebuilt voice.
+export async function synthesizeSpeech(text: string, voiceName: Persona["voiceId"]): Promise<string> {
+  const ai = getAi();
+  const response = await ai.models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+    },
+  });
+  const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+  if (!data) throw new Error("No audio was returned.");
+  return data;
+}
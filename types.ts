@@ -6,22 +6,70 @@ export interface ChatMessagePart {
     data: string; // base64 string
     mimeType: string;
   };
+  fileName?: string; // Original name of a user attachment; not sent to the model
+  executableCode?: {
+    code: string;
+    language?: string;
+  };
+  codeExecutionResult?: {
+    outcome?: string; // e.g. OUTCOME_OK, OUTCOME_FAILED
+    output?: string;
+  };
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   parts: ChatMessagePart[];
   groundingChunks?: GroundingChunk[];
+  groundingCitations?: GroundingCitation[];
   suggestions?: string[];
+  isTruncated?: boolean; // Set when the user stopped the reply before it finished streaming
+  toolCalls?: ToolCall[];
+  isPinned?: boolean; // Always sent to the model as-is, never folded into a summary
+  usage?: TokenUsage;
+}
+
+// Token counts reported for a model reply
+export interface TokenUsage {
+  promptTokens: number; // Size of the context the reply was generated from
+  outputTokens: number; // Reply and thinking tokens, summed over tool rounds
+}
+
+// A function call made by the model during a reply, and its outcome
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  result?: Record<string, unknown>;
+  output?: ChatMessagePart;
+}
+
+// A message in a session's conversation tree. Messages sharing a parent are alternative
+// versions of the same turn, created by editing or regenerating.
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  createdAt: number;
+  message: ChatMessage;
 }
 
 // New type for a single chat session
 export interface ChatSession {
   id: string;
   title: string;
-  messages: ChatMessage[];
+  nodes: Record<string, MessageNode>;
+  activeLeafId: string | null; // Last message of the branch being shown
+  contextSummaries?: Record<string, string>; // Rolling summaries, keyed by the last message each one covers
   createdAt: number;
   personaId?: string;
+  grounding?: GroundingSettings;
+}
+
+// Which grounding sources replies in a session may draw on
+export interface GroundingSettings {
+  search: boolean;
+  maps: boolean;
 }
 
 // New type for TTS configuration
@@ -48,6 +96,12 @@ export interface GroundingChunk {
   };
 }
 
+// A span of the reply text supported by one or more grounding chunks (indices into groundingChunks)
+export interface GroundingCitation {
+  segmentText: string;
+  chunkIndices: number[];
+}
+
 export interface Persona {
   id: string;
   name: string;
@@ -55,6 +109,41 @@ export interface Persona {
   prompt: string;
   voiceId: 'Kore' | 'Puck' | 'Zephyr' | 'Charon';
   isCustom?: boolean;
+  model?: string; // Chat model; defaults to gemini-2.5-pro
+  generationConfig?: PersonaGenerationConfig;
+}
+
+export type SafetyCategory = 'HARM_CATEGORY_HARASSMENT' | 'HARM_CATEGORY_HATE_SPEECH' | 'HARM_CATEGORY_SEXUALLY_EXPLICIT' | 'HARM_CATEGORY_DANGEROUS_CONTENT';
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+// Optional overrides for chat requests made with a persona; unset fields use the API defaults
+export interface PersonaGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // -1 lets the model decide, 0 turns thinking off where the model allows it
+  safetySettings?: Partial<Record<SafetyCategory, SafetyThreshold>>;
+  responseMimeType?: 'text/plain' | 'application/json';
+}
+
+// A record of something created in the Media Suite
+export interface MediaAsset {
+  id: string;
+  kind: 'image' | 'edit' | 'video' | 'transcript';
+  originalPrompt?: string; // What the user typed before the prompt was enhanced
+  prompt: string;
+  model: string;
+  createdAt: number;
+  aspectRatio?: string;
+  text?: string; // Transcription text for 'transcript' assets
+  file?: Blob; // The generated image or video, or the recording a transcript was made from
+  sourceImage?: Blob; // Image an edit, video or variation started from
+  isFavorite?: boolean;
+  negativePrompt?: string;
+  seed?: number;
+  batchId?: string; // Shared by the images generated in one run
+  editSessionId?: string; // Shared by the steps of one editing session
+  editParentId?: string; // The edit this one was applied on top of
 }
 
 export interface SearchResult {
@@ -72,4 +161,9 @@ export interface ScheduledItem {
   dateTime: string; // ISO string format
   isComplete: boolean;
   createdAt: number;
+  uid?: string; // iCalendar UID for items imported from or exported to .ics files
+  isAllDay?: boolean;
+  reminders?: number[]; // Minutes before dateTime at which to remind
+  firedReminders?: number[]; // Reminder offsets that have already been delivered
+  snoozedUntil?: string; // ISO string format
 }
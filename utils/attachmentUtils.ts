@@ -0,0 +1,58 @@
+// Inline attachments travel base64-encoded inside the request, which the API caps at 20 MB,
+// so the raw limits leave room for the ~33% encoding overhead and the rest of the conversation.
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 14 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 8;
+
+const SUPPORTED_MIME_TYPES = [
+  'image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif',
+  'application/pdf',
+  'audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac', 'audio/webm',
+  'text/plain', 'text/markdown', 'text/csv', 'text/html', 'text/css', 'text/xml', 'text/javascript',
+];
+
+// Browsers often report an empty or vendor-specific type for text and code files.
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain', md: 'text/markdown', csv: 'text/csv', html: 'text/html', css: 'text/css', xml: 'text/xml',
+  js: 'text/javascript', json: 'text/plain', ts: 'text/plain', tsx: 'text/plain', py: 'text/plain', log: 'text/plain',
+  mp3: 'audio/mp3', wav: 'audio/wav', m4a: 'audio/aac', heic: 'image/heic',
+};
+
+// The accept attribute for the file picker.
+export const ATTACHMENT_ACCEPT = [...SUPPORTED_MIME_TYPES, ...Object.keys(EXTENSION_MIME_TYPES).map(ext => `.${ext}`)].join(',');
+
+export interface PendingAttachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64 string
+}
+
+export function resolveAttachmentMimeType(file: File): string | null {
+  if (SUPPORTED_MIME_TYPES.includes(file.type)) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_MIME_TYPES[extension] || null;
+}
+
+// Returns a user-facing reason when `file` cannot be added next to the already pending attachments.
+export function validateAttachment(file: File, pending: PendingAttachment[]): string | null {
+  if (!resolveAttachmentMimeType(file)) return `${file.name}: this file type isn't supported.`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  if (pending.length >= MAX_ATTACHMENTS) return `You can attach up to ${MAX_ATTACHMENTS} files per message.`;
+  const total = pending.reduce((sum, a) => sum + a.size, 0) + file.size;
+  if (total > MAX_TOTAL_ATTACHMENT_BYTES) return `Attachments can't exceed ${formatFileSize(MAX_TOTAL_ATTACHMENT_BYTES)} in total.`;
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1).replace(/\.0$/, '')} GB`;
+}
+
+// Approximate decoded size of a base64 payload, for attachments restored from history.
+export function base64ByteLength(data: string): number {
+  return Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+}
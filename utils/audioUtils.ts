@@ -1,3 +1,4 @@
+import type { Blob as GenAiBlob } from '@google/genai';
 
 export function encode(bytes: Uint8Array): string {
   let binary = '';
@@ -36,3 +37,16 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// Converts Float32 microphone samples to the 16-bit PCM blob the Live API expects.
+export function createPcmBlob(data: Float32Array, sampleRate: number): GenAiBlob {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return {
+    data: encode(new Uint8Array(int16.buffer)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
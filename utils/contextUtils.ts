@@ -0,0 +1,85 @@
+import type { Content, Part } from '@google/genai';
+import type { ChatMessage, ChatSession, MessageNode } from '../types';
+import { hasMessageContent } from './messageUtils';
+
+export const CONTEXT_BUDGET_OPTIONS = [32_000, 64_000, 128_000, 256_000, 512_000];
+export const DEFAULT_CONTEXT_BUDGET = 128_000;
+
+// The most recent messages are always sent verbatim, even when over budget.
+const KEEP_RECENT_MESSAGES = 6;
+
+// Tokens are only counted once the estimate passes this share of the budget.
+export const COUNT_TOKENS_THRESHOLD = 0.8;
+
+// Deliberately low, so the estimate errs on the high side.
+const ESTIMATED_CHARS_PER_TOKEN = 3;
+
+const SUMMARY_PREFIX = 'Summary of the earlier part of this conversation (older messages are omitted):';
+
+export interface ContextWindow {
+  summary: string | null;
+  messages: ChatMessage[];
+}
+
+// Index of the last message on `path` covered by a summary, or -1.
+export function findSummaryIndex(path: MessageNode[], summaries: ChatSession['contextSummaries'] = {}): number {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (summaries[path[i].id] !== undefined) return i;
+  }
+  return -1;
+}
+
+// What is sent for `path`: the latest summary on it, the pinned messages that summary
+// covers, and every message after it.
+export function getContextWindow(path: MessageNode[], summaries: ChatSession['contextSummaries'] = {}): ContextWindow {
+  const summaryIndex = findSummaryIndex(path, summaries);
+  if (summaryIndex === -1) return { summary: null, messages: path.map(n => n.message) };
+  return {
+    summary: summaries[path[summaryIndex].id],
+    messages: path.filter((n, i) => i > summaryIndex || n.message.isPinned).map(n => n.message),
+  };
+}
+
+export function toContents(window: ContextWindow): Content[] {
+  const contents: Content[] = window.messages
+    .filter(hasMessageContent)
+    .map(m => ({ role: m.role, parts: m.parts.map(({ fileName, ...part }) => part as Part) }));
+  if (!window.summary) return contents;
+  return [{ role: 'user', parts: [{ text: `${SUMMARY_PREFIX}\n\n${window.summary}` }] }, ...contents];
+}
+
+// A cheap upper estimate of the context sent for `path`: the usage recorded with the latest reply
+// (its prompt plus its own output) and a rough size-based count of every message after it.
+// Attachments are counted by their encoded size, which overstates what they really cost.
+export function estimateContextTokens(path: MessageNode[]): number {
+  let lastUsageIndex = path.length - 1;
+  while (lastUsageIndex >= 0 && !path[lastUsageIndex].message.usage) lastUsageIndex--;
+  const usage = path[lastUsageIndex]?.message.usage;
+  const recorded = usage ? usage.promptTokens + usage.outputTokens : 0;
+  const characters = path.slice(lastUsageIndex + 1).flatMap(n => n.message.parts).reduce((sum, part) =>
+    sum + (part.text?.length || 0) + (part.inlineData?.data.length || 0)
+      + (part.executableCode?.code.length || 0) + (part.codeExecutionResult?.output?.length || 0), 0);
+  return recorded + Math.ceil(characters / ESTIMATED_CHARS_PER_TOKEN);
+}
+
+// Picks the older messages not yet summarized, stopping short of the most recent ones and
+// ending on a model reply so no turn is split. Pinned messages are left out.
+export function selectMessagesToSummarize(path: MessageNode[], summaries: ChatSession['contextSummaries'] = {}): { throughNodeId: string; messages: ChatMessage[] } | null {
+  const start = findSummaryIndex(path, summaries) + 1;
+  let end = path.length - 1 - KEEP_RECENT_MESSAGES;
+  while (end >= start && path[end].message.role !== 'model') end--;
+  if (end < start) return null;
+  const messages = path.slice(start, end + 1).filter(n => !n.message.isPinned).map(n => n.message);
+  return messages.length > 0 ? { throughNodeId: path[end].id, messages } : null;
+}
+
+// Tokens used by every reply in the session, across all branches.
+export function getSessionTokenTotal(session: ChatSession): number {
+  return Object.values(session.nodes).reduce((sum, n) => sum + (n.message.usage ? n.message.usage.promptTokens + n.message.usage.outputTokens : 0), 0);
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0).replace(/\.0$/, '')}k`;
+  return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+}
@@ -0,0 +1,39 @@
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diff (longest common subsequence). Whitespace stays attached to the word before it
+// so the segments can be rendered back to back.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\S+\s*/g) || [];
+  const b = after.match(/\S+\s*/g) || [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      push('same', b[j]);
+      i++; j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach(word => push('removed', word));
+  b.slice(j).forEach(word => push('added', word));
+  return segments;
+}
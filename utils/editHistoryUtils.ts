@@ -0,0 +1,48 @@
+import type { MediaAsset } from '../types';
+
+// An edit session is a tree of 'edit' assets: each step records the step it built on in
+// `editParentId`, and first steps (applied to the upload itself) have none.
+
+// Edits saved before sessions existed each form a one-step session of their own.
+export function getEditSessionId(asset: MediaAsset): string {
+  return asset.editSessionId ?? asset.id;
+}
+
+export function getEditSteps(assets: MediaAsset[], sessionId: string): MediaAsset[] {
+  return assets
+    .filter(a => a.kind === 'edit' && getEditSessionId(a) === sessionId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// A step whose parent was deleted from the library is treated as a first step.
+export function getParentId(steps: MediaAsset[], step: MediaAsset): string | null {
+  return step.editParentId && steps.some(s => s.id === step.editParentId) ? step.editParentId : null;
+}
+
+// The steps leading to `stepId`, from the first edit to the step itself.
+export function getEditPath(steps: MediaAsset[], stepId: string | null): MediaAsset[] {
+  const path: MediaAsset[] = [];
+  let step = steps.find(s => s.id === stepId);
+  while (step) {
+    path.push(step);
+    const parentId = getParentId(steps, step);
+    step = parentId ? steps.find(s => s.id === parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+// Alternative edits applied to the same image (including `step` itself), oldest first.
+export function getEditSiblings(steps: MediaAsset[], step: MediaAsset): MediaAsset[] {
+  const parentId = getParentId(steps, step);
+  return steps.filter(s => getParentId(steps, s) === parentId);
+}
+
+// The last step of the branch through `stepId`, following the most recent edit at each step below it.
+export function getLatestLeafId(steps: MediaAsset[], stepId: string): string {
+  let leafId = stepId;
+  for (;;) {
+    const children = steps.filter(s => getParentId(steps, s) === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
@@ -0,0 +1,51 @@
+import type { GroundingMetadata } from '@google/genai';
+import type { GroundingChunk, GroundingCitation } from '../types';
+
+export function toGroundingChunks(metadata: GroundingMetadata): GroundingChunk[] {
+  return (metadata.groundingChunks || []).map(chunk => ({
+    ...(chunk.web?.uri && { web: { uri: chunk.web.uri, title: chunk.web.title || chunk.web.domain || chunk.web.uri } }),
+    ...(chunk.maps?.uri && {
+      maps: {
+        uri: chunk.maps.uri,
+        title: chunk.maps.title || chunk.maps.uri,
+        placeAnswerSources: {
+          reviewSnippets: (chunk.maps.placeAnswerSources?.reviewSnippets || [])
+            .filter(snippet => snippet.review)
+            .map(snippet => ({ text: snippet.review!, authorName: snippet.authorAttribution?.displayName || 'Google Maps user' })),
+        },
+      },
+    }),
+  }));
+}
+
+export function toGroundingCitations(metadata: GroundingMetadata): GroundingCitation[] {
+  return (metadata.groundingSupports || [])
+    .filter(support => support.segment?.text && support.groundingChunkIndices?.length)
+    .map(support => ({ segmentText: support.segment!.text!, chunkIndices: support.groundingChunkIndices! }));
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// Inserts numbered citation links after each supported segment of the markdown text.
+// Segments are located by their text rather than by offset, since offsets are in UTF-8 bytes.
+export function insertCitations(text: string, citations: GroundingCitation[], chunks: GroundingChunk[]): string {
+  let result = text;
+  let searchFrom = 0;
+  for (const citation of citations) {
+    let index = result.indexOf(citation.segmentText, searchFrom);
+    if (index === -1) index = result.indexOf(citation.segmentText);
+    if (index === -1) continue;
+
+    const markers = citation.chunkIndices
+      .filter(i => chunks[i]?.web || chunks[i]?.maps)
+      .map(i => {
+        const source = (chunks[i].web || chunks[i].maps)!;
+        return `<sup><a href="${escapeAttribute(source.uri)}" target="_blank" rel="noreferrer" title="${escapeAttribute(source.title)}">[${i + 1}]</a></sup>`;
+      })
+      .join('');
+    const end = index + citation.segmentText.length;
+    result = result.slice(0, end) + markers + result.slice(end);
+    searchFrom = end + markers.length;
+  }
+  return result;
+}
@@ -0,0 +1,412 @@
+import type { ScheduledItem } from '../types';
+
+// RFC 5545 (iCalendar) import and export for scheduled items.
+
+const PRODUCT_ID = '-//W3J//W3J Power Suite//EN';
+const UID_DOMAIN = 'w3j-power-suite';
+const DEFAULT_EVENT_MINUTES = 30;
+const MAX_RECURRENCES = 100;
+const RECURRENCE_HORIZON_DAYS = 365;
+
+// The UID an item is exported under; used to recognise it again on import.
+export function getItemUid(item: ScheduledItem): string {
+  return item.uid || `${item.id}@${UID_DOMAIN}`;
+}
+
+// --- Export ---
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+export function exportToIcs(items: ScheduledItem[]): string {
+  const now = formatUtcDateTime(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+
+  for (const item of items) {
+    const start = new Date(item.dateTime);
+    lines.push('BEGIN:VEVENT', `UID:${getItemUid(item)}`, `DTSTAMP:${now}`);
+    if (item.isAllDay) {
+      const nextDay = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+      lines.push(`DTSTART;VALUE=DATE:${formatLocalDate(start)}`, `DTEND;VALUE=DATE:${formatLocalDate(nextDay)}`);
+    } else {
+      const end = new Date(start.getTime() + DEFAULT_EVENT_MINUTES * 60_000);
+      lines.push(`DTSTART:${formatUtcDateTime(start)}`, `DTEND:${formatUtcDateTime(end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(item.title)}`);
+    if (item.notes) lines.push(`DESCRIPTION:${escapeText(item.notes)}`);
+    if (item.isComplete) lines.push('X-W3J-COMPLETED:TRUE');
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- Import ---
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+}
+
+interface IcsDate {
+  date: Date;
+  isAllDay: boolean;
+  // The date and time as written (stored as if it were UTC) and the zone it is read in: 'UTC',
+  // an IANA name, or null for floating local time. Recurrences are expanded on the wall clock.
+  wallClock: number;
+  timeZone: string | null;
+}
+
+export interface IcsImportResult {
+  items: ScheduledItem[];
+  skippedDuplicates: number;
+  unsupportedRecurrences: number; // Recurring entries imported as their first occurrence only
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function parseContentLine(line: string): IcsProperty | null {
+  // The name and parameters end at the first colon that is not inside a quoted parameter value.
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colonIndex = i; break; }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.substring(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.substring(colonIndex + 1) };
+}
+
+function parseComponents(text: string): IcsComponent[] {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const components: IcsComponent[] = [];
+  let current: IcsComponent | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const value = property.value.toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (current) nestedDepth++; // e.g. a VALARM inside a VEVENT
+      else if (value === 'VEVENT' || value === 'VTODO') current = { type: value, properties: [] };
+    } else if (property.name === 'END') {
+      if (current && nestedDepth > 0) nestedDepth--;
+      else if (current && value === current.type) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && nestedDepth === 0) {
+      current.properties.push(property);
+    }
+  }
+  return components;
+}
+
+// Offset in milliseconds between UTC and the given IANA timezone at the given instant.
+function getTimeZoneOffset(utcMillis: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(utcMillis));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - utcMillis;
+}
+
+function wallClockToDate(wallClock: number, timeZone: string | null): Date {
+  if (timeZone === 'UTC') return new Date(wallClock);
+  if (timeZone) {
+    // Two passes so times right after a DST transition pick up the correct offset.
+    let utcMillis = wallClock - getTimeZoneOffset(wallClock, timeZone);
+    utcMillis = wallClock - getTimeZoneOffset(utcMillis, timeZone);
+    return new Date(utcMillis);
+  }
+  const w = new Date(wallClock);
+  return new Date(w.getUTCFullYear(), w.getUTCMonth(), w.getUTCDate(), w.getUTCHours(), w.getUTCMinutes(), w.getUTCSeconds());
+}
+
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseIcsDate(property: IcsProperty): IcsDate | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const isAllDay = h === undefined || property.params.VALUE === 'DATE';
+  const wallClock = isAllDay
+    ? Date.UTC(Number(y), Number(mo) - 1, Number(d))
+    : Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+
+  // Unknown (e.g. Windows-style) timezone names fall back to floating local time.
+  const tzid = property.params.TZID;
+  const timeZone = isAllDay ? null : utc ? 'UTC' : tzid && isKnownTimeZone(tzid) ? tzid : null;
+  return { date: wallClockToDate(wallClock, timeZone), isAllDay, wallClock, timeZone };
+}
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  weekStart: number; // WKST as a weekday index; RFC 5545 defaults to Monday
+  byDay?: { weekday: number; ordinal?: number }[]; // e.g. 2TU is { weekday: 2, ordinal: 2 }
+  byMonthDay?: number[]; // Negative values count from the end of the month
+  byMonth?: number[]; // 1-12
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// The BYxxx parts each frequency is expanded with. Rules using any other part (BYSETPOS, BYWEEKNO,
+// BYHOUR, ...) are reported as unsupported rather than expanded into wrong dates.
+const SUPPORTED_RULE_PARTS: Record<Frequency, string[]> = {
+  DAILY: ['BYDAY'],
+  WEEKLY: ['BYDAY'],
+  MONTHLY: ['BYDAY', 'BYMONTHDAY', 'BYMONTH'],
+  YEARLY: ['BYDAY', 'BYMONTHDAY', 'BYMONTH'],
+};
+const BASE_RULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST'];
+
+function parseNumberList(value: string | undefined, min: number, max: number): number[] | null | undefined {
+  if (value === undefined) return undefined;
+  const numbers = value.split(',').map(Number);
+  return numbers.every(n => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max) ? numbers : null;
+}
+
+// Returns null for rules this importer can't expand faithfully.
+function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = Object.fromEntries(value.split(';').filter(Boolean).map(p => {
+    const [key, ...rest] = p.split('=');
+    return [key.toUpperCase(), rest.join('=').toUpperCase()];
+  }));
+  const freq = parts.FREQ as Frequency;
+  if (!SUPPORTED_RULE_PARTS[freq]) return null;
+  if (Object.keys(parts).some(key => !BASE_RULE_PARTS.includes(key) && !SUPPORTED_RULE_PARTS[freq].includes(key))) return null;
+
+  const byDay = parts.BYDAY?.split(',').map(entry => {
+    const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : undefined } : null;
+  });
+  if (byDay?.some(d => !d || d.ordinal === 0)) return null;
+  // Ordinals (2TU, -1FR) only mean something within a month; a yearly BYDAY without BYMONTH would
+  // count weekdays through the whole year.
+  const hasOrdinal = byDay?.some(d => d!.ordinal !== undefined);
+  if (hasOrdinal && (freq === 'DAILY' || freq === 'WEEKLY')) return null;
+  if (byDay && freq === 'YEARLY' && !parts.BYMONTH) return null;
+
+  const byMonthDay = parseNumberList(parts.BYMONTHDAY, 1, 31);
+  const byMonth = parseNumberList(parts.BYMONTH, 1, 12);
+  if (byMonthDay === null || byMonth === null || byMonth?.some(m => m < 0)) return null;
+  const weekStart = parts.WKST ? WEEKDAYS.indexOf(parts.WKST) : 1;
+  if (weekStart < 0) return null;
+
+  const untilDate = parts.UNTIL ? parseIcsDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }) : null;
+  // A date-only UNTIL still includes occurrences later on that day.
+  const until = untilDate ? new Date(untilDate.date.getTime() + (untilDate.isAllDay ? 86_399_999 : 0)) : undefined;
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until,
+    weekStart,
+    byDay: byDay as RecurrenceRule['byDay'],
+    byMonthDay,
+    byMonth,
+  };
+}
+
+// The days of a month (1-based, ascending) that a MONTHLY or YEARLY rule selects. Without BYDAY or
+// BYMONTHDAY that is DTSTART's day, which months too short for it skip, as RFC 5545 requires.
+function getMonthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const fromEnd = (n: number) => n > 0 ? n : daysInMonth + n + 1;
+  let days: number[];
+  if (rule.byDay) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const firstMatch = 1 + (weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7;
+      const matching: number[] = [];
+      for (let day = firstMatch; day <= daysInMonth; day += 7) matching.push(day);
+      if (ordinal === undefined) return matching;
+      const day = matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal];
+      return day ? [day] : [];
+    });
+    // BYMONTHDAY narrows the BYDAY matches down.
+    if (rule.byMonthDay) days = days.filter(day => rule.byMonthDay!.some(n => fromEnd(n) === day));
+  } else {
+    days = (rule.byMonthDay ?? [startDay]).map(fromEnd);
+  }
+  return [...new Set(days)].filter(day => day >= 1 && day <= daysInMonth).sort((a, b) => a - b);
+}
+
+// Expands a recurrence rule into start times. Dates are stepped on the wall clock of DTSTART's
+// timezone, so occurrences keep their local time across DST changes, and each one is then converted
+// to an instant.
+function expandRecurrence(start: IcsDate, rule: RecurrenceRule, excluded: Set<number>): Date[] {
+  const horizon = new Date(Math.max(start.date.getTime(), Date.now()) + RECURRENCE_HORIZON_DAYS * 86_400_000);
+  const end = rule.until && rule.until < horizon ? rule.until : horizon;
+  const maxCount = Math.min(rule.count ?? MAX_RECURRENCES, MAX_RECURRENCES);
+  const startWall = new Date(start.wallClock);
+  const [startYear, startMonth, startDay] = [startWall.getUTCFullYear(), startWall.getUTCMonth(), startWall.getUTCDate()];
+  const at = (year: number, month: number, day: number) =>
+    Date.UTC(year, month, day, startWall.getUTCHours(), startWall.getUTCMinutes(), startWall.getUTCSeconds());
+  const isPastEnd = (wall: number) => wallClockToDate(wall, start.timeZone) > end;
+  const occurrences: Date[] = [];
+  let generated = 0;
+  if (maxCount <= 0) return occurrences;
+
+  // Candidates before DTSTART don't count. Returns false once the end or the count is reached.
+  const accept = (wall: number): boolean => {
+    if (wall < start.wallClock) return true;
+    const date = wallClockToDate(wall, start.timeZone);
+    if (date > end) return false;
+    generated++;
+    if (!excluded.has(date.getTime())) occurrences.push(date);
+    return generated < maxCount;
+  };
+
+  if (rule.freq === 'DAILY') {
+    for (let i = 0; !isPastEnd(at(startYear, startMonth, startDay + i)); i += rule.interval) {
+      const wall = at(startYear, startMonth, startDay + i);
+      if (rule.byDay && !rule.byDay.some(d => d.weekday === new Date(wall).getUTCDay())) continue;
+      if (!accept(wall)) return occurrences;
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [startWall.getUTCDay()];
+    const offsets = [...new Set(weekdays.map(w => (w - rule.weekStart + 7) % 7))].sort((a, b) => a - b);
+    const weekStartDay = startDay - (startWall.getUTCDay() - rule.weekStart + 7) % 7;
+    for (let week = 0; !isPastEnd(at(startYear, startMonth, weekStartDay + week * 7)); week += rule.interval) {
+      for (const offset of offsets) {
+        if (!accept(at(startYear, startMonth, weekStartDay + week * 7 + offset))) return occurrences;
+      }
+    }
+  } else if (rule.freq === 'MONTHLY') {
+    for (let i = 0; !isPastEnd(at(startYear, startMonth + i, 1)); i += rule.interval) {
+      const first = new Date(at(startYear, startMonth + i, 1));
+      const [year, month] = [first.getUTCFullYear(), first.getUTCMonth()];
+      if (rule.byMonth && !rule.byMonth.includes(month + 1)) continue;
+      for (const day of getMonthDays(year, month, rule, startDay)) {
+        if (!accept(at(year, month, day))) return occurrences;
+      }
+    }
+  } else {
+    const months = [...(rule.byMonth ?? [startMonth + 1])].sort((a, b) => a - b);
+    for (let year = startYear; !isPastEnd(at(year, 0, 1)); year += rule.interval) {
+      for (const month of months) {
+        for (const day of getMonthDays(year, month - 1, rule, startDay)) {
+          if (!accept(at(year, month - 1, day))) return occurrences;
+        }
+      }
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Parses an .ics file into scheduled items. VEVENTs and VTODOs are imported, recurring entries are
+ * expanded into one item per occurrence, and anything whose UID matches `existingUids` is skipped.
+ * Recurrence rules that can't be expanded faithfully import only their first occurrence.
+ */
+export function parseIcs(text: string, existingUids: Set<string>): IcsImportResult {
+  const items: ScheduledItem[] = [];
+  const seen = new Set(existingUids);
+  let skippedDuplicates = 0;
+  let unsupportedRecurrences = 0;
+  const createdAt = Date.now();
+
+  for (const component of parseComponents(text)) {
+    const get = (name: string) => component.properties.find(p => p.name === name);
+    const startProperty = component.type === 'VTODO' ? get('DUE') || get('DTSTART') : get('DTSTART');
+    const start = startProperty && parseIcsDate(startProperty);
+    if (!start) continue;
+
+    const uid = get('UID')?.value || `${formatUtcDateTime(start.date)}-${items.length}@import`;
+    const status = get('STATUS')?.value.toUpperCase();
+    const isComplete = status === 'COMPLETED' || !!get('COMPLETED') || get('X-W3J-COMPLETED')?.value.toUpperCase() === 'TRUE';
+    const base = {
+      title: unescapeText(get('SUMMARY')?.value || 'Untitled'),
+      notes: unescapeText(get('DESCRIPTION')?.value || ''),
+      isComplete,
+      isAllDay: start.isAllDay || undefined,
+      createdAt,
+    };
+
+    const rrule = get('RRULE');
+    const rule = rrule && parseRecurrenceRule(rrule.value);
+    if (rrule && !rule) unsupportedRecurrences++;
+    const excluded = new Set(
+      component.properties
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(value => parseIcsDate({ ...p, value })?.date.getTime()))
+        .filter((t): t is number => t !== undefined),
+    );
+    const occurrences = rule ? expandRecurrence(start, rule, excluded) : [start.date];
+
+    occurrences.forEach((date, index) => {
+      const occurrenceUid = rule ? `${uid}#${formatUtcDateTime(date)}` : uid;
+      if (seen.has(occurrenceUid)) {
+        skippedDuplicates++;
+        return;
+      }
+      seen.add(occurrenceUid);
+      items.push({ ...base, id: `item-${createdAt}-${items.length}-${index}`, uid: occurrenceUid, dateTime: date.toISOString() });
+    });
+  }
+
+  return { items, skippedDuplicates, unsupportedRecurrences };
+}
@@ -0,0 +1,80 @@
+import type { ChatMessage, ChatSession, MessageNode } from '../types';
+
+// Sessions saved before messages were stored as a tree.
+type LegacyChatSession = Omit<ChatSession, 'nodes' | 'activeLeafId'> & Partial<Pick<ChatSession, 'nodes' | 'activeLeafId'>> & { messages?: ChatMessage[] };
+
+let nodeCounter = 0;
+
+// Builds a chain of nodes below `parentId`, each message replying to the one before it.
+export function createNodes(parentId: string | null, messages: ChatMessage[], createdAt = Date.now()): MessageNode[] {
+  const nodes: MessageNode[] = [];
+  messages.forEach((message, i) => {
+    nodes.push({
+      id: `msg-${createdAt}-${(nodeCounter++).toString(36)}`,
+      parentId: i === 0 ? parentId : nodes[i - 1].id,
+      createdAt: createdAt + i,
+      message,
+    });
+  });
+  return nodes;
+}
+
+// Adds nodes to the session and shows the branch ending in the last of them.
+export function addNodes(session: ChatSession, nodes: MessageNode[]): ChatSession {
+  if (nodes.length === 0) return session;
+  return {
+    ...session,
+    nodes: { ...session.nodes, ...Object.fromEntries(nodes.map(node => [node.id, node])) },
+    activeLeafId: nodes[nodes.length - 1].id,
+  };
+}
+
+export function createSession(fields: Omit<ChatSession, 'nodes' | 'activeLeafId'>, messages: ChatMessage[] = []): ChatSession {
+  return addNodes({ ...fields, nodes: {}, activeLeafId: null }, createNodes(null, messages, fields.createdAt));
+}
+
+export function migrateSession(session: LegacyChatSession): ChatSession {
+  if (session.nodes) return session as ChatSession;
+  const { messages = [], ...fields } = session;
+  return createSession(fields, messages);
+}
+
+// The nodes of the branch being shown, from the first message to the active leaf.
+export function getActivePath(session: ChatSession): MessageNode[] {
+  const path: MessageNode[] = [];
+  let nodeId = session.activeLeafId;
+  while (nodeId && session.nodes[nodeId]) {
+    path.push(session.nodes[nodeId]);
+    nodeId = session.nodes[nodeId].parentId;
+  }
+  return path.reverse();
+}
+
+export function getActiveMessages(session: ChatSession): ChatMessage[] {
+  return getActivePath(session).map(node => node.message);
+}
+
+// Alternative versions of a node (including itself), oldest first.
+export function getSiblings(session: ChatSession, node: MessageNode): MessageNode[] {
+  return Object.values(session.nodes)
+    .filter(n => n.parentId === node.parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function updateNodeMessage(session: ChatSession, nodeId: string, updater: (message: ChatMessage) => ChatMessage): ChatSession {
+  const node = session.nodes[nodeId];
+  if (!node) return session;
+  return { ...session, nodes: { ...session.nodes, [nodeId]: { ...node, message: updater(node.message) } } };
+}
+
+// Shows the branch through `nodeId`, following the most recent reply at each step below it.
+export function selectBranch(session: ChatSession, nodeId: string): ChatSession {
+  const nodes = Object.values(session.nodes);
+  let leafId = nodeId;
+  for (;;) {
+    const children = nodes.filter(n => n.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children.reduce((latest, child) => child.createdAt > latest.createdAt ? child : latest).id;
+  }
+  return { ...session, activeLeafId: leafId };
+}
@@ -0,0 +1,42 @@
+import type { Part } from '@google/genai';
+import type { ChatMessage, ChatMessagePart } from '../types';
+
+// All text of a message, in order. Non-text parts are skipped.
+export function getMessageText(message: ChatMessage, separator = ''): string {
+  return message.parts.filter(p => p.text).map(p => p.text).join(separator);
+}
+
+export function hasMessageContent(message: ChatMessage): boolean {
+  return message.parts.some(p => p.text || p.inlineData || p.executableCode || p.codeExecutionResult);
+}
+
+// Keeps the parts of a model response that can be displayed and stored; thoughts and
+// function calls are dropped (tool calls are tracked separately on the message).
+export function toMessagePart(part: Part): ChatMessagePart | null {
+  if (part.thought) return null;
+  if (part.text) return { text: part.text };
+  if (part.inlineData?.data && part.inlineData.mimeType) {
+    return { inlineData: { data: part.inlineData.data, mimeType: part.inlineData.mimeType } };
+  }
+  if (part.executableCode?.code) {
+    return { executableCode: { code: part.executableCode.code, language: part.executableCode.language } };
+  }
+  if (part.codeExecutionResult) {
+    return { codeExecutionResult: { outcome: part.codeExecutionResult.outcome, output: part.codeExecutionResult.output } };
+  }
+  return null;
+}
+
+// Appends streamed parts to a message, merging consecutive text chunks into one part.
+export function appendMessageParts(parts: ChatMessagePart[], incoming: ChatMessagePart[]): ChatMessagePart[] {
+  const result = [...parts];
+  for (const part of incoming) {
+    const last = result[result.length - 1];
+    if (part.text !== undefined && last?.text !== undefined) {
+      result[result.length - 1] = { text: last.text + part.text };
+    } else {
+      result.push(part);
+    }
+  }
+  return result;
+}
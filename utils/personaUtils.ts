@@ -0,0 +1,118 @@
+import type { GenerateContentConfig, HarmBlockThreshold, HarmCategory } from '@google/genai';
+import type { Persona, PersonaGenerationConfig, SafetyCategory, SafetyThreshold } from '../types';
+
+export const VOICE_OPTIONS: Persona['voiceId'][] = ['Kore', 'Puck', 'Zephyr', 'Charon'];
+
+export const DEFAULT_CHAT_MODEL = 'gemini-2.5-pro';
+
+export const CHAT_MODEL_OPTIONS = [
+  { id: 'gemini-2.5-pro', label: '2.5 Pro' },
+  { id: 'gemini-2.5-flash', label: '2.5 Flash' },
+  { id: 'gemini-2.5-flash-lite', label: '2.5 Flash-Lite' },
+];
+
+export const SAFETY_CATEGORIES: { id: SafetyCategory; label: string }[] = [
+  { id: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+  { id: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+  { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+  { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+];
+
+export const SAFETY_THRESHOLDS: { id: SafetyThreshold; label: string }[] = [
+  { id: 'BLOCK_NONE', label: 'Block none' },
+  { id: 'BLOCK_ONLY_HIGH', label: 'Block few' },
+  { id: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block some' },
+  { id: 'BLOCK_LOW_AND_ABOVE', label: 'Block most' },
+];
+
+const EXPORT_VERSION = 1;
+
+export function createPersonaId(): string {
+  return `persona-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// Maps a persona's overrides onto the request config, leaving unset fields to the API defaults.
+export function toGenerateContentConfig(config: PersonaGenerationConfig | undefined): GenerateContentConfig {
+  if (!config) return {};
+  const safetySettings = Object.entries(config.safetySettings || {}).map(([category, threshold]) => ({
+    category: category as HarmCategory,
+    threshold: threshold as HarmBlockThreshold,
+  }));
+  return {
+    ...(config.temperature !== undefined && { temperature: config.temperature }),
+    ...(config.topP !== undefined && { topP: config.topP }),
+    ...(config.maxOutputTokens !== undefined && { maxOutputTokens: config.maxOutputTokens }),
+    ...(config.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: config.thinkingBudget } }),
+    ...(safetySettings.length > 0 && { safetySettings }),
+    ...(config.responseMimeType && { responseMimeType: config.responseMimeType }),
+  };
+}
+
+// Short labels for the settings a persona runs with, for display in the chat header.
+export function describePersonaSettings(persona: Persona): string[] {
+  const model = persona.model || DEFAULT_CHAT_MODEL;
+  const config = persona.generationConfig || {};
+  return [
+    CHAT_MODEL_OPTIONS.find(m => m.id === model)?.label || model,
+    ...(config.temperature !== undefined ? [`Temp ${config.temperature}`] : []),
+    ...(config.topP !== undefined ? [`Top-P ${config.topP}`] : []),
+    ...(config.maxOutputTokens !== undefined ? [`Max ${config.maxOutputTokens} tokens`] : []),
+    ...(config.thinkingBudget !== undefined ? [config.thinkingBudget === 0 ? 'No thinking' : config.thinkingBudget < 0 ? 'Dynamic thinking' : `Thinking ${config.thinkingBudget}`] : []),
+    ...(Object.keys(config.safetySettings || {}).length > 0 ? ['Custom safety'] : []),
+    ...(config.responseMimeType === 'application/json' ? ['JSON'] : []),
+  ];
+}
+
+const numberInRange = (value: unknown, min: number, max: number, integer = false) =>
+  typeof value === 'number' && value >= min && value <= max && (!integer || Number.isInteger(value)) ? value : undefined;
+
+// Drops unknown or out-of-range fields, e.g. from an imported file.
+export function sanitizeGenerationConfig(value: unknown): PersonaGenerationConfig | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const safetySettings = Object.fromEntries(
+    Object.entries((raw.safetySettings as Record<string, unknown>) || {}).filter(([category, threshold]) =>
+      SAFETY_CATEGORIES.some(c => c.id === category) && SAFETY_THRESHOLDS.some(t => t.id === threshold)),
+  ) as PersonaGenerationConfig['safetySettings'];
+  const config: PersonaGenerationConfig = {
+    temperature: numberInRange(raw.temperature, 0, 2),
+    topP: numberInRange(raw.topP, 0, 1),
+    maxOutputTokens: numberInRange(raw.maxOutputTokens, 1, 65536, true),
+    thinkingBudget: numberInRange(raw.thinkingBudget, -1, 32768, true),
+    safetySettings: Object.keys(safetySettings || {}).length > 0 ? safetySettings : undefined,
+    responseMimeType: raw.responseMimeType === 'application/json' || raw.responseMimeType === 'text/plain' ? raw.responseMimeType : undefined,
+  };
+  const defined = Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined));
+  return Object.keys(defined).length > 0 ? defined as PersonaGenerationConfig : undefined;
+}
+
+export function exportPersonas(personas: Persona[]): string {
+  const exported = personas.map(({ id, isCustom, ...persona }) => persona);
+  return JSON.stringify({ version: EXPORT_VERSION, personas: exported }, null, 2);
+}
+
+// Accepts either an export file ({ version, personas }) or a bare array of personas.
+// Every imported persona becomes a custom persona with a fresh id; invalid entries are skipped.
+export function parsePersonaImport(text: string): { personas: Persona[]; skipped: number } {
+  const data = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.personas) ? data.personas : [];
+  if (entries.length === 0) throw new Error('No personas found in file.');
+
+  const personas: Persona[] = [];
+  for (const entry of entries) {
+    const candidate = entry as Partial<Persona> | null;
+    if (!candidate || typeof candidate.name !== 'string' || !candidate.name.trim() || typeof candidate.prompt !== 'string') continue;
+    const generationConfig = sanitizeGenerationConfig(candidate.generationConfig);
+    personas.push({
+      id: createPersonaId(),
+      name: candidate.name.trim(),
+      description: typeof candidate.description === 'string' ? candidate.description : '',
+      prompt: candidate.prompt,
+      voiceId: VOICE_OPTIONS.includes(candidate.voiceId!) ? candidate.voiceId! : 'Kore',
+      isCustom: true,
+      ...(CHAT_MODEL_OPTIONS.some(m => m.id === candidate.model) && { model: candidate.model }),
+      ...(generationConfig && { generationConfig }),
+    });
+  }
+  return { personas, skipped: entries.length - personas.length };
+}
@@ -0,0 +1,66 @@
+import type { ScheduledItem } from '../types';
+
+export const REMINDER_OPTIONS = [
+  { minutes: 0, label: 'At time' },
+  { minutes: 10, label: '10 min before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 1440, label: '1 day before' },
+];
+
+export const SNOOZE_MINUTES = 10;
+export const REMINDER_CHECK_INTERVAL_MS = 30_000;
+
+// Served from public/; relays clicks on the notification's action buttons back to the app.
+export const REMINDER_WORKER_URL = '/reminder-sw.js';
+
+export const REMINDER_ACTIONS = [
+  { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+  { action: 'done', title: 'Mark done' },
+] as const;
+
+export type ReminderAction = typeof REMINDER_ACTIONS[number]['action'];
+
+export function isReminderAction(value: unknown): value is ReminderAction {
+  return REMINDER_ACTIONS.some(a => a.action === value);
+}
+
+// Reminders for events further in the past than this are dropped instead of shown late.
+const MISSED_REMINDER_WINDOW_MS = 24 * 60 * 60_000;
+
+export interface DueReminder {
+  item: ScheduledItem;
+  offsets: number[]; // Reminder offsets (minutes before) that are now due
+  isSnooze: boolean;
+  isMissed: boolean; // Due while the tab was closed or asleep
+  isStale: boolean; // Too old to be worth showing; only marked as delivered
+}
+
+export function findDueReminders(items: ScheduledItem[], now: number): DueReminder[] {
+  const due: DueReminder[] = [];
+  for (const item of items) {
+    if (item.isComplete) continue;
+    const start = new Date(item.dateTime).getTime();
+    const fired = item.firedReminders || [];
+    const offsets = (item.reminders || []).filter(m => !fired.includes(m) && now >= start - m * 60_000);
+    const isSnooze = !!item.snoozedUntil && now >= new Date(item.snoozedUntil).getTime();
+    if (offsets.length === 0 && !isSnooze) continue;
+
+    const latestFireAt = Math.max(...offsets.map(m => start - m * 60_000), isSnooze ? new Date(item.snoozedUntil!).getTime() : 0);
+    due.push({
+      item,
+      offsets,
+      isSnooze,
+      isMissed: now - latestFireAt > REMINDER_CHECK_INTERVAL_MS * 2,
+      isStale: now - start > MISSED_REMINDER_WINDOW_MS,
+    });
+  }
+  return due;
+}
+
+export function markReminderDelivered(item: ScheduledItem, reminder: DueReminder): ScheduledItem {
+  return {
+    ...item,
+    firedReminders: [...(item.firedReminders || []), ...reminder.offsets],
+    snoozedUntil: reminder.isSnooze ? undefined : item.snoozedUntil,
+  };
+}
@@ -0,0 +1,31 @@
+// Splits a search query into lowercase terms; every term must appear for a text to match.
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.length > 0 && terms.every(term => lower.includes(term));
+}
+
+// Returns a single-line excerpt of `text` centred on the first matching term.
+export function createSnippet(text: string, terms: string[], radius = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const index = Math.min(...terms.map(term => lower.indexOf(term)).filter(i => i !== -1));
+  if (!isFinite(index)) return flat.substring(0, radius * 2);
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(flat.length, index + radius);
+  return `${start > 0 ? '…' : ''}${flat.substring(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+// Splits text into alternating plain and matched segments for highlighting.
+export function splitByTerms(text: string, terms: string[]): { text: string; isMatch: boolean }[] {
+  if (terms.length === 0) return [{ text, isMatch: false }];
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text
+    .split(new RegExp(`(${escaped.join('|')})`, 'gi'))
+    .filter(Boolean)
+    .map(part => ({ text: part, isMatch: terms.includes(part.toLowerCase()) }));
+}